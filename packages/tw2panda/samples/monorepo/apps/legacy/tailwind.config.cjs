@@ -0,0 +1,8 @@
+/** @type {import("tailwindcss").Config} */
+module.exports = {
+  theme: {
+    extend: {
+      colors: { legacy: "#ff0000" },
+    },
+  },
+};
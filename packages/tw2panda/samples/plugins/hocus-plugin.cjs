@@ -0,0 +1,11 @@
+const plugin = require("tailwindcss/plugin");
+
+module.exports = plugin(({ addUtilities, addVariant }) => {
+  addVariant("hocus", ["&:hover", "&:focus"]);
+  addUtilities({
+    ".text-balance-safe": {
+      "text-wrap": "balance",
+      "overflow-wrap": "anywhere",
+    },
+  });
+});
@@ -14,6 +14,8 @@ import { join, relative } from "pathe";
 import { createMergeCss } from "@pandacss/shared";
 import type { PandaContext } from "./panda-context";
 import type { TailwindContext } from "./tw-types";
+import { toTwV4ClassName } from "./tw-context";
+import { getBreakpointMismatches, type BreakpointMismatch } from "./tw-breakpoints";
 import { twClassListToPandaStyles } from "./tw-class-list-to-panda-styles";
 import { mapToShorthands } from "./panda-map-to-shorthands";
 import type { StyleObject } from "./types";
@@ -70,6 +72,8 @@ export interface ProjectAnalysis {
   tokens: TokenUsage[];
   /** Detected patterns (potential recipes) */
   patterns: ExtractedPattern[];
+  /** Breakpoints defined with different values in Tailwind & Panda, their variants are kept as raw media queries */
+  breakpointMismatches: BreakpointMismatch[];
   /** Summary statistics */
   summary: {
     totalFiles: number;
@@ -213,7 +217,7 @@ function extractClassesFromFile(
       continue;
     }
 
-    const css = tailwind.candidatesToCss([cls])[0];
+    const css = tailwind.candidatesToCss([toTwV4ClassName(cls, tailwind)])[0];
     if (css) {
       converted.push(cls);
     } else {
@@ -444,6 +448,7 @@ export async function analyzeProject(
     files: fileAnalyses,
     tokens: [...allTokens.values()].sort((a, b) => b.count - a.count),
     patterns,
+    breakpointMismatches: getBreakpointMismatches(tailwind, panda),
     summary: {
       totalFiles: fileAnalyses.length,
       totalClasses: allClasses.length,
@@ -549,7 +554,7 @@ export default defineConfig({
  * Generate a markdown migration report
  */
 export function generateMigrationReport(analysis: ProjectAnalysis): string {
-  const { summary, tokens, patterns, files } = analysis;
+  const { summary, tokens, patterns, files, breakpointMismatches } = analysis;
 
   // Get unconverted classes with file locations
   const unconvertedByClass = new Map<string, string[]>();
@@ -610,7 +615,21 @@ ${
     ? `\n*...and ${unconvertedByClass.size - unconvertedList.length} more*\n`
     : ""
 }
+${
+  breakpointMismatches.length
+    ? `
+## Breakpoint Mismatches
+
+These breakpoints have different values in Tailwind & Panda, their variants are kept as raw media queries:
 
+| Breakpoint | Tailwind | Panda |
+|------------|----------|-------|
+${breakpointMismatches
+  .map((mismatch) => `| \`${mismatch.name}\` | ${mismatch.tailwind} | ${mismatch.panda} |`)
+  .join("\n")}
+`
+    : ""
+}
 ## Detected Patterns
 
 These repeated patterns could be converted to Panda recipes:
@@ -676,12 +695,12 @@ ${files.length > 50 ? `\n*...and ${files.length - 50} more files*` : ""}
 function getSuggestionForClass(cls: string): string {
   // Animation classes
   if (cls.startsWith("animate-")) {
-    return "Add to `keyframes` in panda config";
+    return "Define it as an `--animate-*` theme value, then run `tw2panda keyframes`";
   }
 
   // Custom colors
   if (cls.match(/^(bg|text|border|ring)-[a-z]+-/i) && !cls.match(/-(50|100|200|300|400|500|600|700|800|900|950)$/)) {
-    return "Add custom color token";
+    return "Add custom color token, or run `tw2panda semantic-tokens` for `:root` CSS variable colors";
   }
 
   // Arbitrary values
@@ -696,7 +715,7 @@ function getSuggestionForClass(cls: string): string {
 
   // Container queries
   if (cls.startsWith("@")) {
-    return "Container query - use Panda conditions";
+    return "Container query - check the size exists in the `--container-*` theme";
   }
 
   // Variants
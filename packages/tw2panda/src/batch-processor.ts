@@ -33,6 +33,10 @@ export interface BatchOptions {
   outDir?: string | undefined;
   /** Use shorthand properties */
   shorthands?: boolean | undefined;
+  /** Map the text-* font sizes to Panda text styles */
+  textStyles?: boolean | undefined;
+  /** Rewrite the space-* utilities of flex & grid containers to gap */
+  spaceToGap?: boolean | undefined;
   /** Dry run - don't write files */
   dryRun?: boolean | undefined;
   /** Show diff instead of full output */
@@ -116,6 +120,8 @@ export async function batchProcess(
     cwd,
     outDir,
     shorthands = false,
+    textStyles = false,
+    spaceToGap = false,
     dryRun = false,
     htmlExtensions = DEFAULT_HTML_EXTENSIONS,
     tsExtensions = DEFAULT_TS_EXTENSIONS,
@@ -176,6 +182,8 @@ export async function batchProcess(
           cwd,
           outDir,
           shorthands,
+          textStyles,
+          spaceToGap,
           dryRun,
           htmlExtensions,
           tsExtensions,
@@ -216,6 +224,8 @@ interface ProcessFileOptions {
   cwd: string;
   outDir: string | undefined;
   shorthands: boolean;
+  textStyles: boolean;
+  spaceToGap: boolean;
   dryRun: boolean;
   htmlExtensions: string[];
   tsExtensions: string[];
@@ -226,7 +236,8 @@ interface ProcessFileOptions {
 
 async function processFile(filePath: string, options: ProcessFileOptions): Promise<BatchFileResult> {
   const startTime = Date.now();
-  const { cwd, outDir, shorthands, dryRun, htmlExtensions, tsExtensions, tw, panda, mergeCss } = options;
+  const { cwd, outDir, shorthands, textStyles, spaceToGap, dryRun, htmlExtensions, tsExtensions, tw, panda, mergeCss } =
+    options;
 
   const absolutePath = join(cwd, filePath);
   const ext = extname(filePath).toLowerCase();
@@ -252,6 +263,8 @@ async function processFile(filePath: string, options: ProcessFileOptions): Promi
       // HTML -> TSX conversion
       const result = rewriteHtmlToPanda(content, tw, panda, mergeCss, {
         shorthands,
+        textStyles,
+        spaceToGap,
         fileName: basename(filePath, ext),
       });
       converted = maybePretty(result.output);
@@ -260,6 +273,8 @@ async function processFile(filePath: string, options: ProcessFileOptions): Promi
       // TS/JS conversion
       const result = rewriteTwFileContentToPanda(content, filePath, tw, panda, mergeCss, {
         shorthands,
+        textStyles,
+        spaceToGap,
       } as RewriteOptions);
       converted = result.output;
       // TS converter doesn't track unconverted classes yet
@@ -6,8 +6,7 @@ import { extractTwFileClassList } from "./extract-tw-class-list";
 import { rewriteTwFileContentToPanda } from "./rewrite-tw-file-content-to-panda";
 import { rewriteHtmlToPanda } from "./rewrite-html-to-panda";
 import { generateTailwindThemeCss, generateThemeVariablesOnly } from "./generate-tailwind-theme-css";
-import { createTailwindContext } from "./tw-context";
-import { createPandaContext } from "./panda-context";
+import { createPandaContext, type PandaContext } from "./panda-context";
 import { twClassListToPanda } from "./tw-to-panda";
 import { maybePretty } from "./maybe-pretty";
 import { z } from "zod";
@@ -15,7 +14,9 @@ import { z } from "zod";
 import { name, version } from "../package.json";
 import { writeFile } from "fs/promises";
 import { RewriteOptions } from "./types";
-import { loadPandaContext } from "./config/load-context";
+import { loadPandaContext, loadTailwindContext } from "./config/load-context";
+import { getBreakpointMismatches } from "./tw-breakpoints";
+import type { TailwindContext } from "./tw-types";
 
 const DEFAULT_THEME_OUTPUT = "tailwind-theme.css";
 
@@ -23,7 +24,9 @@ const cwd = process.cwd();
 
 const withTw = z.object({ tailwind: z.string() });
 const withWrite = z.object({ write: z.boolean() });
-const rewriteOptions = z.object({ shorthands: z.boolean() }).partial();
+const rewriteOptions = z
+  .object({ shorthands: z.boolean(), textStyles: z.boolean(), spaceToGap: z.boolean() })
+  .partial();
 const configOptions = z.object({ config: z.string().optional(), cwd: z.string().default(cwd) });
 
 const rewriteFlags = withWrite
@@ -38,13 +41,45 @@ const rewriteFlags = withWrite
   .merge(configOptions);
 const extractFlags = withTw.merge(rewriteOptions).partial().merge(configOptions);
 
+/**
+ * Load the Tailwind context of a file or project, warning when several CSS entries could be used and picking the first one
+ */
+const loadTailwindContextWithWarning = (options: Parameters<typeof loadTailwindContext>[0]) =>
+  loadTailwindContext({
+    ...options,
+    onAmbiguousEntry: (candidates) => {
+      const filePath = candidates[0]!;
+      console.warn(
+        [
+          `Found multiple Tailwind CSS entries, using ${filePath} (use --tailwind <file> to pick one):`,
+          ...candidates.map((entry) => `  - ${entry}`),
+        ].join("\n"),
+      );
+
+      return filePath;
+    },
+  });
+
+/**
+ * Warn about the breakpoints defined in both Tailwind & Panda with different values, their variants stay raw media queries
+ */
+const warnBreakpointMismatches = (tailwind: TailwindContext, panda: PandaContext) => {
+  getBreakpointMismatches(tailwind, panda).forEach(({ name, tailwind: twValue, panda: pandaValue }) => {
+    console.warn(
+      `Warning: the "${name}" breakpoint is ${twValue} in Tailwind but ${pandaValue} in Panda, its variants are kept as raw media queries`,
+    );
+  });
+};
+
 const cli = cac(name);
 
 cli
   .command("rewrite <file>", "Output the given file converted to panda, doesn't actually write to disk unless using -w")
-  .option("--tw, --tailwind <file>", "Path to tailwind CSS file (v4 uses CSS-first config)")
+  .option("--tw, --tailwind <file>", "Path to tailwind CSS entry file or legacy tailwind.config.js")
   .option("-w, --write", "Write to disk instead of stdout")
   .option("-s, --shorthands", "Use shorthands instead of longhand properties")
+  .option("--text-styles", "Map the text-* font sizes to Panda text styles")
+  .option("--space-to-gap", "Rewrite the space-* utilities of flex & grid containers to gap")
   .option("-c, --config <path>", "Path to panda config file")
   .option("-t, --theme", "Also generate Tailwind theme CSS file")
   .option("--theme-output <file>", `Theme CSS output path (default: ${DEFAULT_THEME_OUTPUT})`)
@@ -55,12 +90,12 @@ cli
     const cwdResolved = resolve(options.cwd);
     const content = readFileSync(join(cwdResolved, file), "utf-8");
 
-    // In v4, we use the default Tailwind CSS config
-    const tw = await createTailwindContext();
+    const tw = await loadTailwindContextWithWarning({ cwd: cwdResolved, configPath: options.tailwind, file });
     const configPath = options.config;
 
     const ctx = await loadPandaContext({ cwd: cwdResolved, configPath, file });
     const panda = ctx.context;
+    warnBreakpointMismatches(tw.context, panda);
     const { mergeCss } = createMergeCss(Object.assign(panda, { hash: false }));
 
     const result = rewriteTwFileContentToPanda(content, file, tw.context, panda, mergeCss, options as RewriteOptions);
@@ -88,20 +123,22 @@ cli
     "extract <file>",
     "Extract each tailwind candidate and show its converted output, doesn't actually write to disk",
   )
-  .option("--tw, --tailwind <file>", "Path to tailwind CSS file (v4 uses CSS-first config)")
+  .option("--tw, --tailwind <file>", "Path to tailwind CSS entry file or legacy tailwind.config.js")
   .option("-s, --shorthands", "Use shorthands instead of longhand properties")
+  .option("--text-styles", "Map the text-* font sizes to Panda text styles")
+  .option("--space-to-gap", "Rewrite the space-* utilities of flex & grid containers to gap")
   .option("-c, --config <path>", "Path to panda config file")
   .option("--cwd <cwd>", "Current working directory", { default: cwd })
   .action(async (file, _options) => {
     const options = extractFlags.parse(_options);
     const content = readFileSync(join(cwd, file), "utf-8");
 
-    // In v4, we use the default Tailwind CSS config
-    const tw = await createTailwindContext();
+    const tw = await loadTailwindContextWithWarning({ cwd, configPath: options.tailwind, file });
     const configPath = options.config;
 
     const ctx = await loadPandaContext({ cwd, configPath, file });
     const panda = ctx.context;
+    warnBreakpointMismatches(tw.context, panda);
     const { mergeCss } = createMergeCss(Object.assign(panda, { hash: false }));
 
     const list = extractTwFileClassList(content, tw.context, panda, mergeCss, options as RewriteOptions);
@@ -110,10 +147,22 @@ cli
 
 cli
   .command("convert <classList>", "Example: inline-flex disabled:pointer-events-none underline-offset-4")
+  .option("--tw, --tailwind <file>", "Path to tailwind CSS entry file or legacy tailwind.config.js")
   .option("-s, --shorthands", "Use shorthands instead of longhand properties")
+  .option("--text-styles", "Map the text-* font sizes to Panda text styles")
+  .option("--space-to-gap", "Rewrite the space-* utilities of flex & grid containers to gap")
+  .option("-c, --config <path>", "Path to panda config file")
+  .option("--cwd <cwd>", "Current working directory", { default: cwd })
   .action(async (classList, _options) => {
-    const options = rewriteOptions.partial().parse(_options);
-    const result = await twClassListToPanda(classList, options);
+    const options = extractFlags.parse(_options);
+    const cwdResolved = resolve(options.cwd);
+
+    const tw = await loadTailwindContextWithWarning({ cwd: cwdResolved, configPath: options.tailwind });
+    const ctx = await loadPandaContext({ cwd: cwdResolved, configPath: options.config, file: "" });
+    const panda = ctx.context;
+    warnBreakpointMismatches(tw.context, panda);
+
+    const result = await twClassListToPanda(classList, options, { tailwind: tw.context, panda });
     console.log("input:", classList);
     console.log("output:\n");
     console.log(JSON.stringify(result, null, 2));
@@ -150,6 +199,7 @@ cli
 
 // HTML conversion with theme support
 const htmlRewriteFlags = withWrite
+  .merge(withTw)
   .merge(rewriteOptions)
   .extend({
     name: z.string().optional(),
@@ -160,8 +210,11 @@ const htmlRewriteFlags = withWrite
 
 cli
   .command("html <file>", "Convert HTML file with Tailwind classes to TSX with Panda CSS")
+  .option("--tw, --tailwind <file>", "Path to tailwind CSS entry file or legacy tailwind.config.js")
   .option("-w, --write", "Write to disk instead of stdout (outputs to same name with .tsx extension)")
   .option("-s, --shorthands", "Use shorthands instead of longhand properties")
+  .option("--text-styles", "Map the text-* font sizes to Panda text styles")
+  .option("--space-to-gap", "Rewrite the space-* utilities of flex & grid containers to gap")
   .option("-n, --name <name>", "Component name (defaults to PascalCase of filename)")
   .option("-t, --theme", "Also generate Tailwind theme CSS file")
   .option("--theme-output <file>", `Theme CSS output path (default: ${DEFAULT_THEME_OUTPUT})`)
@@ -170,8 +223,9 @@ cli
     const content = readFileSync(resolve(cwd, file), "utf-8");
 
     // Initialize contexts
-    const tw = await createTailwindContext();
+    const tw = await loadTailwindContextWithWarning({ cwd, configPath: options.tailwind, file });
     const panda = createPandaContext();
+    warnBreakpointMismatches(tw.context, panda);
     const { mergeCss } = createMergeCss({
       utility: panda.utility,
       conditions: panda.conditions,
@@ -181,6 +235,8 @@ cli
     const fileName = basename(file, extname(file));
     const result = rewriteHtmlToPanda(content, tw.context, panda, mergeCss, {
       shorthands: options.shorthands,
+      textStyles: options.textStyles,
+      spaceToGap: options.spaceToGap,
       componentName: options.name,
       fileName,
     });
@@ -287,7 +343,7 @@ import { htmlToSlotRecipes } from "./extract-components";
 
 cli
   .command("components <file>", "Extract components from HTML and generate Panda slot recipes")
-  .option("--tw, --tailwind <file>", "Path to tailwind CSS file (v4 uses CSS-first config)")
+  .option("--tw, --tailwind <file>", "Path to tailwind CSS entry file or legacy tailwind.config.js")
   .option("-s, --shorthands", "Use shorthands instead of longhand properties")
   .option("-c, --config <path>", "Path to panda config file")
   .option("--min-confidence <n>", "Minimum confidence threshold (0-1)", { default: "0.5" })
@@ -311,9 +367,10 @@ cli
     const content = readFileSync(join(cwdResolved, file), "utf-8");
 
     // Create contexts
-    const tw = await createTailwindContext();
+    const tw = await loadTailwindContextWithWarning({ cwd: cwdResolved, configPath: options.tailwind, file });
     const ctx = await loadPandaContext({ cwd: cwdResolved, configPath: options.config, file });
     const panda = ctx.context;
+    warnBreakpointMismatches(tw.context, panda);
 
     // Extract components
     const minConfidence = parseFloat(options.minConfidence);
@@ -370,12 +427,35 @@ import { batchProcess, formatBatchResults, generateDiff } from "./batch-processo
 
 // Watch mode
 import { watchFiles, formatWatchEvent } from "./watch";
+import { createTailwindContextCache } from "./tw-context";
 
 // Interactive mode
 import { runInteractive } from "./interactive";
 
+// Custom utilities
+import { generateUtilitiesConfig, getTwCustomUtilities } from "./tw-custom-utilities";
+
+// Custom variants
+import { generateConditionsConfig, getTwCustomVariants } from "./tw-custom-variants";
+import { getTwDarkMode, getTwDarkSelectorMode } from "./tw-dark-mode";
+import { collectTwGroupConditions } from "./tw-group-conditions";
+
+// Text styles
+import { generateTextStylesConfig, getMissingTextStyles } from "./tw-text-styles";
+
+// Keyframes
+import { collectTwKeyframes, generateKeyframesConfig } from "./tw-keyframes";
+
+// Semantic tokens
+import {
+  generateSemanticTokensConfig,
+  getTwColorVariablesDarkSelector,
+  getTwSemanticColors,
+} from "./tw-semantic-colors";
+
 cli
   .command("tokens [dir]", "Extract used tokens and generate minimal Panda theme config")
+  .option("--tw, --tailwind <file>", "Path to tailwind CSS entry file or legacy tailwind.config.js")
   .option("-s, --shorthands", "Use shorthands instead of longhand properties")
   .option("-c, --config <path>", "Path to panda config file")
   .option("-o, --output <file>", "Output file path (default: stdout)")
@@ -386,6 +466,7 @@ cli
     const options = z
       .object({
         shorthands: z.boolean().optional(),
+        tailwind: z.string().optional(),
         config: z.string().optional(),
         output: z.string().optional(),
         include: z.string().optional(),
@@ -399,9 +480,10 @@ cli
     console.log(`Analyzing ${cwdResolved}...\n`);
 
     // Create contexts
-    const tw = await createTailwindContext();
+    const tw = await loadTailwindContextWithWarning({ cwd: cwdResolved, configPath: options.tailwind });
     const ctx = await loadPandaContext({ cwd: cwdResolved, configPath: options.config, file: "" });
     const panda = ctx.context;
+    warnBreakpointMismatches(tw.context, panda);
 
     // Parse include/exclude patterns
     const include = options.include?.split(",").map((p) => p.trim());
@@ -434,8 +516,236 @@ cli
     });
   });
 
+cli
+  .command("utilities [dir]", "Generate Panda utilities config from the Tailwind @utility definitions")
+  .option("--tw, --tailwind <file>", "Path to tailwind CSS entry file or legacy tailwind.config.js")
+  .option("-o, --output <file>", "Output file path (default: stdout)")
+  .option("--cwd <cwd>", "Current working directory", { default: cwd })
+  .action(async (dir, _options) => {
+    const options = z
+      .object({
+        tailwind: z.string().optional(),
+        output: z.string().optional(),
+        cwd: z.string().default(cwd),
+      })
+      .parse(_options);
+
+    const cwdResolved = resolve(options.cwd, dir || ".");
+    const tw = await loadTailwindContextWithWarning({ cwd: cwdResolved, configPath: options.tailwind });
+
+    const utilities = getTwCustomUtilities(tw.context);
+    if (!utilities.length) {
+      console.log("No @utility definitions found");
+      return;
+    }
+
+    const configCode = generateUtilitiesConfig(utilities, tw.context);
+
+    if (options.output) {
+      const outputPath = resolve(cwdResolved, options.output);
+      await writeFile(outputPath, configCode);
+      console.log(`✓ Generated ${options.output} with ${utilities.length} utilities`);
+    } else {
+      console.log(configCode);
+    }
+  });
+
+cli
+  .command(
+    "conditions [dir]",
+    "Generate Panda conditions config from the Tailwind @custom-variant definitions, dark mode and the group/peer variants used",
+  )
+  .option("--tw, --tailwind <file>", "Path to tailwind CSS entry file or legacy tailwind.config.js")
+  .option("-c, --config <path>", "Path to panda config file")
+  .option("-o, --output <file>", "Output file path (default: stdout)")
+  .option("--include <patterns>", "File patterns to include (comma-separated)")
+  .option("--exclude <patterns>", "File patterns to exclude (comma-separated)")
+  .option("--cwd <cwd>", "Current working directory", { default: cwd })
+  .action(async (dir, _options) => {
+    const options = z
+      .object({
+        tailwind: z.string().optional(),
+        config: z.string().optional(),
+        output: z.string().optional(),
+        include: z.string().optional(),
+        exclude: z.string().optional(),
+        cwd: z.string().default(cwd),
+      })
+      .parse(_options);
+
+    const cwdResolved = resolve(options.cwd, dir || ".");
+    const tw = await loadTailwindContextWithWarning({ cwd: cwdResolved, configPath: options.tailwind });
+    const ctx = await loadPandaContext({ cwd: cwdResolved, configPath: options.config, file: "" });
+
+    // Named group/peer variants (and the ones Panda has no built-in condition for) need custom conditions
+    const analysis = await analyzeProject(cwdResolved, tw.context, ctx.context, {
+      include: options.include?.split(",").map((p) => p.trim()),
+      exclude: options.exclude?.split(",").map((p) => p.trim()),
+    });
+    const classList = analysis.files.flatMap((file) => file.convertedClasses);
+
+    // The `dark` variant only needs a condition when Panda has none matching it
+    const darkMode = getTwDarkMode(tw.context, ctx.context);
+    const variants = [
+      ...getTwCustomVariants(tw.context).filter((variant) => variant.name !== "dark"),
+      ...(darkMode.variant ? [darkMode.variant] : []),
+      ...collectTwGroupConditions(classList, tw.context, ctx.context),
+    ];
+    if (!variants.length) {
+      console.log("No @custom-variant definitions or group/peer variants found");
+      return;
+    }
+
+    const configCode = generateConditionsConfig(variants);
+
+    if (options.output) {
+      const outputPath = resolve(cwdResolved, options.output);
+      await writeFile(outputPath, configCode);
+      console.log(`✓ Generated ${options.output} with ${variants.length} conditions`);
+    } else {
+      console.log(configCode);
+    }
+  });
+
+cli
+  .command(
+    "text-styles [dir]",
+    "Generate Panda textStyles config from the Tailwind font sizes missing in the Panda preset",
+  )
+  .option("--tw, --tailwind <file>", "Path to tailwind CSS entry file or legacy tailwind.config.js")
+  .option("-c, --config <path>", "Path to panda config file")
+  .option("-o, --output <file>", "Output file path (default: stdout)")
+  .option("--cwd <cwd>", "Current working directory", { default: cwd })
+  .action(async (dir, _options) => {
+    const options = z
+      .object({
+        tailwind: z.string().optional(),
+        config: z.string().optional(),
+        output: z.string().optional(),
+        cwd: z.string().default(cwd),
+      })
+      .parse(_options);
+
+    const cwdResolved = resolve(options.cwd, dir || ".");
+    const tw = await loadTailwindContextWithWarning({ cwd: cwdResolved, configPath: options.tailwind });
+    const ctx = await loadPandaContext({ cwd: cwdResolved, configPath: options.config, file: "" });
+
+    const textStyles = getMissingTextStyles(tw.context, ctx.context);
+    if (!textStyles.length) {
+      console.log("All the Tailwind font sizes already have a Panda text style");
+      return;
+    }
+
+    const configCode = generateTextStylesConfig(textStyles);
+
+    if (options.output) {
+      const outputPath = resolve(cwdResolved, options.output);
+      await writeFile(outputPath, configCode);
+      console.log(`✓ Generated ${options.output} with ${textStyles.length} text styles`);
+    } else {
+      console.log(configCode);
+    }
+  });
+
+cli
+  .command(
+    "semantic-tokens [dir]",
+    "Generate Panda semanticTokens config from the Tailwind colors defined with :root & .dark CSS variables",
+  )
+  .option("--tw, --tailwind <file>", "Path to tailwind CSS entry file or legacy tailwind.config.js")
+  .option("-c, --config <path>", "Path to panda config file")
+  .option("-o, --output <file>", "Output file path (default: stdout)")
+  .option("--cwd <cwd>", "Current working directory", { default: cwd })
+  .action(async (dir, _options) => {
+    const options = z
+      .object({
+        tailwind: z.string().optional(),
+        config: z.string().optional(),
+        output: z.string().optional(),
+        cwd: z.string().default(cwd),
+      })
+      .parse(_options);
+
+    const cwdResolved = resolve(options.cwd, dir || ".");
+    const tw = await loadTailwindContextWithWarning({ cwd: cwdResolved, configPath: options.tailwind });
+    const ctx = await loadPandaContext({ cwd: cwdResolved, configPath: options.config, file: "" });
+
+    const colors = getTwSemanticColors(tw.context);
+    if (!colors.length) {
+      console.log("No Tailwind colors defined with :root CSS variables found");
+      return;
+    }
+
+    // The dark values use the condition of the selector they're defined under, e.g. `.dark` -> `_dark`
+    const darkSelector = getTwColorVariablesDarkSelector(tw.context);
+    const darkMode = darkSelector ? getTwDarkSelectorMode(darkSelector, ctx.context) : undefined;
+    const [darkCondition = "_dark"] = darkMode?.conditions ?? [];
+    // A selector Panda has no condition for, e.g. `[data-theme="dark"]`, comes with the `twDark` condition to add
+    const configCode = [
+      generateSemanticTokensConfig(colors, darkCondition),
+      ...(darkMode?.variant ? [generateConditionsConfig([darkMode.variant])] : []),
+    ].join("\n");
+
+    if (options.output) {
+      const outputPath = resolve(cwdResolved, options.output);
+      await writeFile(outputPath, configCode);
+      console.log(`✓ Generated ${options.output} with ${colors.length} semantic colors`);
+    } else {
+      console.log(configCode);
+    }
+  });
+
+cli
+  .command("keyframes [dir]", "Generate Panda keyframes config from the Tailwind @keyframes used by animate-* classes")
+  .option("--tw, --tailwind <file>", "Path to tailwind CSS entry file or legacy tailwind.config.js")
+  .option("-c, --config <path>", "Path to panda config file")
+  .option("-o, --output <file>", "Output file path (default: stdout)")
+  .option("--include <patterns>", "File patterns to include (comma-separated)")
+  .option("--exclude <patterns>", "File patterns to exclude (comma-separated)")
+  .option("--cwd <cwd>", "Current working directory", { default: cwd })
+  .action(async (dir, _options) => {
+    const options = z
+      .object({
+        tailwind: z.string().optional(),
+        config: z.string().optional(),
+        output: z.string().optional(),
+        include: z.string().optional(),
+        exclude: z.string().optional(),
+        cwd: z.string().default(cwd),
+      })
+      .parse(_options);
+
+    const cwdResolved = resolve(options.cwd, dir || ".");
+    const tw = await loadTailwindContextWithWarning({ cwd: cwdResolved, configPath: options.tailwind });
+    const ctx = await loadPandaContext({ cwd: cwdResolved, configPath: options.config, file: "" });
+
+    const analysis = await analyzeProject(cwdResolved, tw.context, ctx.context, {
+      include: options.include?.split(",").map((p) => p.trim()),
+      exclude: options.exclude?.split(",").map((p) => p.trim()),
+    });
+    const classList = analysis.files.flatMap((file) => file.convertedClasses);
+
+    const keyframes = collectTwKeyframes(classList, tw.context, ctx.context);
+    const count = Object.keys(keyframes).length;
+    if (!count) {
+      console.log("No keyframes missing from the Panda config");
+      return;
+    }
+
+    const configCode = generateKeyframesConfig(keyframes);
+
+    if (options.output) {
+      const outputPath = resolve(cwdResolved, options.output);
+      await writeFile(outputPath, configCode);
+      console.log(`✓ Generated ${options.output} with ${count} keyframes`);
+    } else {
+      console.log(configCode);
+    }
+  });
+
 cli
   .command("report [dir]", "Generate migration report for a project")
+  .option("--tw, --tailwind <file>", "Path to tailwind CSS entry file or legacy tailwind.config.js")
   .option("-s, --shorthands", "Use shorthands instead of longhand properties")
   .option("-c, --config <path>", "Path to panda config file")
   .option("-o, --output <file>", "Output file path (default: stdout)")
@@ -447,6 +757,7 @@ cli
     const options = z
       .object({
         shorthands: z.boolean().optional(),
+        tailwind: z.string().optional(),
         config: z.string().optional(),
         output: z.string().optional(),
         include: z.string().optional(),
@@ -461,7 +772,7 @@ cli
     console.log(`Analyzing ${cwdResolved}...\n`);
 
     // Create contexts
-    const tw = await createTailwindContext();
+    const tw = await loadTailwindContextWithWarning({ cwd: cwdResolved, configPath: options.tailwind });
     const ctx = await loadPandaContext({ cwd: cwdResolved, configPath: options.config, file: "" });
     const panda = ctx.context;
 
@@ -492,6 +803,7 @@ cli
 
 cli
   .command("infer [dir]", "Infer recipe variants from repeated patterns")
+  .option("--tw, --tailwind <file>", "Path to tailwind CSS entry file or legacy tailwind.config.js")
   .option("-s, --shorthands", "Use shorthands instead of longhand properties")
   .option("-c, --config <path>", "Path to panda config file")
   .option("-o, --output <dir>", "Output directory for recipe files")
@@ -503,6 +815,7 @@ cli
     const options = z
       .object({
         shorthands: z.boolean().optional(),
+        tailwind: z.string().optional(),
         config: z.string().optional(),
         output: z.string().optional(),
         include: z.string().optional(),
@@ -517,9 +830,10 @@ cli
     console.log(`Analyzing ${cwdResolved} for patterns...\n`);
 
     // Create contexts
-    const tw = await createTailwindContext();
+    const tw = await loadTailwindContextWithWarning({ cwd: cwdResolved, configPath: options.tailwind });
     const ctx = await loadPandaContext({ cwd: cwdResolved, configPath: options.config, file: "" });
     const panda = ctx.context;
+    warnBreakpointMismatches(tw.context, panda);
 
     // Parse options
     const include = options.include?.split(",").map((p) => p.trim());
@@ -565,7 +879,10 @@ cli
 // Batch processing command
 cli
   .command("batch <patterns...>", "Convert multiple files matching glob patterns")
+  .option("--tw, --tailwind <file>", "Path to tailwind CSS entry file or legacy tailwind.config.js")
   .option("-s, --shorthands", "Use shorthands instead of longhand properties")
+  .option("--text-styles", "Map the text-* font sizes to Panda text styles")
+  .option("--space-to-gap", "Rewrite the space-* utilities of flex & grid containers to gap")
   .option("-c, --config <path>", "Path to panda config file")
   .option("-o, --out-dir <dir>", "Output directory (default: in-place)")
   .option("-d, --dry-run", "Preview changes without writing files")
@@ -581,6 +898,9 @@ cli
     const options = z
       .object({
         shorthands: z.boolean().optional(),
+        textStyles: z.boolean().optional(),
+        spaceToGap: z.boolean().optional(),
+        tailwind: z.string().optional(),
         config: z.string().optional(),
         outDir: z.string().optional(),
         dryRun: z.boolean().optional(),
@@ -604,9 +924,10 @@ cli
     console.log("");
 
     // Create contexts
-    const tw = await createTailwindContext();
+    const tw = await loadTailwindContextWithWarning({ cwd: cwdResolved, configPath: options.tailwind });
     const ctx = await loadPandaContext({ cwd: cwdResolved, configPath: options.config, file: "" });
     const panda = ctx.context;
+    warnBreakpointMismatches(tw.context, panda);
 
     // Process files with progress
     let lastPercent = -1;
@@ -615,6 +936,8 @@ cli
       cwd: cwdResolved,
       outDir: options.outDir,
       shorthands: options.shorthands,
+      textStyles: options.textStyles,
+      spaceToGap: options.spaceToGap,
       dryRun: options.dryRun,
       ignore,
       concurrency,
@@ -653,7 +976,10 @@ cli
 // Watch mode command
 cli
   .command("watch <patterns...>", "Watch files and convert on change")
+  .option("--tw, --tailwind <file>", "Path to tailwind CSS entry file or legacy tailwind.config.js")
   .option("-s, --shorthands", "Use shorthands instead of longhand properties")
+  .option("--text-styles", "Map the text-* font sizes to Panda text styles")
+  .option("--space-to-gap", "Rewrite the space-* utilities of flex & grid containers to gap")
   .option("-c, --config <path>", "Path to panda config file")
   .option("-o, --out-dir <dir>", "Output directory (default: in-place)")
   .option("--ignore <patterns>", "Additional patterns to ignore (comma-separated)")
@@ -665,6 +991,9 @@ cli
     const options = z
       .object({
         shorthands: z.boolean().optional(),
+        textStyles: z.boolean().optional(),
+        spaceToGap: z.boolean().optional(),
+        tailwind: z.string().optional(),
         config: z.string().optional(),
         outDir: z.string().optional(),
         ignore: z.string().optional(),
@@ -682,9 +1011,11 @@ cli
     console.log(`\n   Press Ctrl+C to stop\n`);
 
     // Create contexts
-    const tw = await createTailwindContext();
+    const twCache = createTailwindContextCache({ maxSize: 1 });
+    const tw = await loadTailwindContextWithWarning({ cwd: cwdResolved, configPath: options.tailwind, cache: twCache });
     const ctx = await loadPandaContext({ cwd: cwdResolved, configPath: options.config, file: "" });
     const panda = ctx.context;
+    warnBreakpointMismatches(tw.context, panda);
 
     // Start watching
     const { stop } = watchFiles(tw.context, panda, {
@@ -692,7 +1023,14 @@ cli
       cwd: cwdResolved,
       outDir: options.outDir,
       shorthands: options.shorthands,
+      textStyles: options.textStyles,
+      spaceToGap: options.spaceToGap,
       ignore,
+      // Reloaded from the cache, until the Tailwind CSS entry, its imports or config change
+      // The entry found on startup is kept, instead of scanning the project's stylesheets on every change
+      loadTailwindContext: async () =>
+        (await loadTailwindContext({ cwd: cwdResolved, configPath: options.tailwind ?? tw.filePath, cache: twCache }))
+          .context,
       onEvent: (event) => {
         console.log(formatWatchEvent(event));
       },
@@ -713,6 +1051,7 @@ cli
 // Interactive migration wizard
 cli
   .command("init [dir]", "Interactive migration wizard")
+  .option("--tw, --tailwind <file>", "Path to tailwind CSS entry file or legacy tailwind.config.js")
   .alias("interactive")
   .option("-s, --shorthands", "Use shorthands instead of longhand properties")
   .option("-c, --config <path>", "Path to panda config file")
@@ -722,6 +1061,7 @@ cli
     const options = z
       .object({
         shorthands: z.boolean().optional(),
+        tailwind: z.string().optional(),
         config: z.string().optional(),
         ignore: z.string().optional(),
         cwd: z.string().default(cwd),
@@ -732,9 +1072,10 @@ cli
     const ignore = options.ignore?.split(",").map((p) => p.trim()) ?? [];
 
     // Create contexts
-    const tw = await createTailwindContext();
+    const tw = await loadTailwindContextWithWarning({ cwd: cwdResolved, configPath: options.tailwind });
     const ctx = await loadPandaContext({ cwd: cwdResolved, configPath: options.config, file: "" });
     const panda = ctx.context;
+    warnBreakpointMismatches(tw.context, panda);
 
     // Run interactive wizard
     await runInteractive(tw.context, panda, {
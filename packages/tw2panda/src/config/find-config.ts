@@ -1,4 +1,7 @@
 import findUp from "escalade/sync";
+import fg from "fast-glob";
+import { existsSync, readFileSync } from "fs";
+import { dirname, join, relative, resolve } from "pathe";
 
 // Adapted from https://github.com/chakra-ui/panda/blob/b58daf4276e47aaad536b8327c7a27f48a4cdc2e/packages/config/src/find-config.ts#L4
 
@@ -26,3 +29,84 @@ export function findTailwindConfig({ from }: { from: string }) {
     return paths.find(isTailwindConfig);
   });
 }
+
+/** The packages a project installs Panda with, the CLI one first */
+const pandaPackages = ["@pandacss/dev", "@pandacss/node", "@pandacss/core"];
+
+/**
+ * Find the Panda version installed in a project, from the closest `node_modules/@pandacss/*` package
+ * Returns `undefined` when Panda isn't installed from `cwd`
+ */
+export function findPandaVersion({ cwd }: { cwd: string }) {
+  const packageJsonPath = findUp(cwd, (dir) => {
+    return pandaPackages
+      .map((name) => join("node_modules", name, "package.json"))
+      .find((path) => existsSync(join(dir, path)));
+  });
+  if (!packageJsonPath) return;
+
+  const { version } = JSON.parse(readFileSync(packageJsonPath, "utf-8")) as { version?: string };
+  return version;
+}
+
+/** `@import "tailwindcss"` (v4), optionally through `url()` or the `tailwindcss/index.css` subpath */
+const tailwindImportRegex = /@import\s+(?:url\(\s*)?["']tailwindcss(?:\/index(?:\.css)?)?["']/;
+/** `@tailwind base|components|utilities` (v3) directives */
+const tailwindDirectiveRegex = /@tailwind\s+[\w-]+/;
+
+const CSS_ENTRY_IGNORE = ["**/node_modules/**", "**/dist/**", "**/build/**", "**/.git/**", "**/styled-system/**"];
+
+/** Whether a stylesheet is a Tailwind entry point, i.e. it loads the framework */
+export const isTailwindCssEntry = (content: string) =>
+  tailwindImportRegex.test(content) || tailwindDirectiveRegex.test(content);
+
+/** Whether a stylesheet only uses v3 `@tailwind` directives, without loading the framework through an `@import` */
+export const isLegacyTailwindCssEntry = (content: string) =>
+  !tailwindImportRegex.test(content) && tailwindDirectiveRegex.test(content);
+
+/**
+ * Find every stylesheet under `cwd` that is a Tailwind entry point
+ * (contains `@import "tailwindcss"` or `@tailwind` directives)
+ * Globs & reads every stylesheet, long-running callers should resolve the entry once (see `findTailwindEntry`)
+ */
+export function findTailwindCssEntries({ cwd }: { cwd: string }) {
+  const files = fg.sync("**/*.css", { cwd, ignore: CSS_ENTRY_IGNORE, absolute: true, onlyFiles: true });
+  return files.filter((file) => isTailwindCssEntry(readFileSync(file, "utf-8"))).sort();
+}
+
+export type TailwindCssEntryResult = {
+  /** The selected entry, `undefined` when none was found or when it is ambiguous */
+  filePath: string | undefined;
+  /** Every entry that could be used for `from` */
+  candidates: string[];
+  isAmbiguous: boolean;
+};
+
+/**
+ * Pick the Tailwind CSS entry for a given file (or directory), among a list of entries:
+ * - entries living in one of the parent directories of `from` take precedence, the closest one wins
+ * - otherwise every entry is a candidate
+ * It is ambiguous when more than one candidate remains.
+ */
+export function pickTailwindCssEntry(entries: string[], from?: string | undefined): TailwindCssEntryResult {
+  let candidates = entries;
+
+  if (from) {
+    const parentEntries = entries.filter((entry) => !relative(dirname(entry), from).startsWith(".."));
+    if (parentEntries.length) {
+      const closestDepth = Math.max(...parentEntries.map((entry) => dirname(entry).length));
+      candidates = parentEntries.filter((entry) => dirname(entry).length === closestDepth);
+    }
+  }
+
+  const isAmbiguous = candidates.length > 1;
+  return { filePath: isAmbiguous ? undefined : candidates[0], candidates, isAmbiguous };
+}
+
+/**
+ * Scan a project for its Tailwind CSS entry point, the stylesheet containing `@import "tailwindcss"`
+ * (or `@tailwind` directives), preferring the one closest to `from` when provided
+ */
+export function findTailwindCssEntry({ cwd, from }: { cwd: string; from?: string | undefined }) {
+  return pickTailwindCssEntry(findTailwindCssEntries({ cwd }), from ? resolve(cwd, from) : undefined);
+}
@@ -1,23 +1,112 @@
 import { loadConfigAndCreateContext } from "@pandacss/node";
+import { readFileSync } from "fs";
+import { basename, dirname, extname, resolve } from "pathe";
 import { PandaContext, createPandaContext } from "../panda-context";
-import { ConfigFileOptions, findPandaConfig, findTailwindConfig } from "./find-config";
-import { createTailwindContext } from "../tw-context";
+import {
+  ConfigFileOptions,
+  findPandaConfig,
+  findPandaVersion,
+  findTailwindConfig,
+  findTailwindCssEntry,
+  isLegacyTailwindCssEntry,
+} from "./find-config";
+import { TailwindContextCache, createTailwindContext } from "../tw-context";
+
+export type TailwindEntryResult = {
+  /** The CSS entry or legacy config to load, `undefined` when none was found or when several CSS entries could be used */
+  filePath: string | undefined;
+  /** Every CSS entry that could be used, when ambiguous */
+  candidates: string[];
+  isAmbiguous: boolean;
+};
+
+/**
+ * Find the file to create the tailwind context from:
+ * - the v4 CSS entry point of the project (the stylesheet with `@import "tailwindcss"`)
+ * - a legacy tailwind.config.js, when there is no v4 entry or when the entry only has v3 `@tailwind` directives
+ *
+ * When several CSS entries could be used (e.g. from the root of a monorepo), none is picked
+ * and the result is flagged as ambiguous, so that callers can pick one of the `candidates` or ask for an explicit entry.
+ */
+export function findTailwindEntry(options: ConfigFileOptions): TailwindEntryResult {
+  const from = options.file ? resolve(options.cwd, options.file) : options.cwd;
+  const legacyConfigPath = findTailwindConfig({ from }) || undefined;
+
+  const entry = findTailwindCssEntry({ cwd: options.cwd, from });
+  const { filePath: cssEntryPath, candidates, isAmbiguous } = entry;
+
+  if (isAmbiguous) return entry;
+  if (!cssEntryPath) return { filePath: legacyConfigPath, candidates, isAmbiguous };
+  if (legacyConfigPath && isLegacyTailwindCssEntry(readFileSync(cssEntryPath, "utf-8"))) {
+    return { filePath: legacyConfigPath, candidates, isAmbiguous };
+  }
+
+  return { filePath: cssEntryPath, candidates, isAmbiguous };
+}
+
+/**
+ * v3 stylesheets only contain `@tailwind base|components|utilities` directives,
+ * replace them with the v4 `@import "tailwindcss"` so that the framework (theme, utilities) gets loaded
+ */
+const upgradeLegacyDirectives = (css: string) =>
+  `@import "tailwindcss";\n` + css.replace(/@tailwind\s+[\w-]+\s*;?/g, "");
 
 /**
  * Load tailwind context from:
  * - configPath when provided
- * - find tailwind.config.js from file or cwd, when provided
+ * - find the tailwind CSS entry (or tailwind.config.js) from file or cwd, when provided
  * - create in-memory tailwind context as fallback when no config file is found
  *
- * Note: In Tailwind v4, JS configs are no longer directly supported.
- * The context is now created from CSS with the default Tailwind preset.
+ * When several CSS entries could be used, `onAmbiguousEntry` picks one of them (e.g. after warning about it),
+ * without it the load fails with the list of entries so that an explicit configPath can be passed.
+ *
+ * When configPath points to a CSS entry file (v4 CSS-first config), it is read and its whole
+ * `@import` / `@theme` chain is resolved relative to that file.
+ * A legacy `tailwind.config.{ts,js,cjs,mjs}` is bundled and loaded through the v4 `@config` compat layer,
+ * so its theme extensions, screens, darkMode etc are applied on top of the default theme.
+ *
+ * Pass a `cache` (see `createTailwindContextCache`) to reuse the design system until its files change, e.g. in watch mode.
  */
-export async function loadTailwindContext(options: ConfigFileOptions) {
-  const filePath = options.configPath ?? findTailwindConfig({ from: options.file ?? options.cwd });
+export async function loadTailwindContext(
+  options: ConfigFileOptions & {
+    cache?: TailwindContextCache | undefined;
+    onAmbiguousEntry?: ((candidates: string[]) => string) | undefined;
+  },
+) {
+  const { cache, onAmbiguousEntry } = options;
+  const entry: TailwindEntryResult = options.configPath
+    ? { filePath: resolve(options.cwd, options.configPath), candidates: [], isAmbiguous: false }
+    : findTailwindEntry(options);
+
+  let { filePath } = entry;
+  if (entry.isAmbiguous) {
+    if (!onAmbiguousEntry) {
+      throw new Error(
+        [
+          `Found multiple Tailwind CSS entries, pass the one to use as configPath:`,
+          ...entry.candidates.map((candidate) => `  - ${candidate}`),
+        ].join("\n"),
+      );
+    }
+
+    filePath = onAmbiguousEntry(entry.candidates);
+  }
+
+  if (!filePath) {
+    const tw = await createTailwindContext(undefined, { cache });
+    return { context: tw.context, filePath };
+  }
+
+  let css: string;
+  if (extname(filePath) === ".css") {
+    const content = readFileSync(filePath, "utf-8");
+    css = isLegacyTailwindCssEntry(content) ? upgradeLegacyDirectives(content) : content;
+  } else {
+    // v3 JS configs are loaded through Tailwind's `@config` compat layer
+    css = `@import "tailwindcss";\n@config "./${basename(filePath)}";`;
+  }
 
-  // In v4, we always load from the default CSS.
-  // JS configs can be referenced via @config directive in CSS if needed.
-  const tw = await createTailwindContext();
+  const tw = await createTailwindContext(css, { base: dirname(filePath), cache });
   return { context: tw.context, filePath };
 }
 
@@ -26,16 +115,20 @@ export async function loadTailwindContext(options: ConfigFileOptions) {
  * - configPath when provided
  * - find panda.config.js from file or cwd, when provided
  * - create in-memory panda context as fallback when no config file is found
+ *
+ * The context targets the Panda version installed in the project (from cwd) unless a `version` is provided,
+ * so that the output only uses the features that version supports.
  */
-export async function loadPandaContext(options: ConfigFileOptions) {
+export async function loadPandaContext(options: ConfigFileOptions & { version?: string | undefined }) {
   const filePath = options.configPath ?? findPandaConfig({ from: options.file ?? options.cwd });
+  const version = options.version ?? findPandaVersion({ cwd: options.cwd });
 
   if (!filePath) {
-    return { context: createPandaContext() as PandaContext, filePath };
+    return { context: createPandaContext({ version }) as PandaContext, filePath };
   }
 
-  return {
-    context: (await loadConfigAndCreateContext({ configPath: filePath, cwd: options.cwd })) as any as PandaContext,
-    filePath,
-  };
+  const context = (await loadConfigAndCreateContext({ configPath: filePath, cwd: options.cwd })) as any as PandaContext;
+  context.version = version;
+
+  return { context, filePath };
 }
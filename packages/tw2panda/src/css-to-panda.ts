@@ -155,7 +155,7 @@ const BREAKPOINT_PATTERNS: Array<{ pattern: RegExp; key: string }> = [
 /**
  * Convert a CSS selector to a Panda condition key
  */
-function selectorToCondition(selector: string): string | null {
+export function selectorToCondition(selector: string): string | null {
   // Direct mapping
   const directMapping = SELECTOR_TO_CONDITION[selector];
   if (directMapping) {
@@ -26,7 +26,7 @@ export const extractTwFileClassList = (
     const string = node.getLiteralText();
     const classList = new Set(string.split(" "));
 
-    const styles = twClassListToPandaStyles(classList, tailwind, panda);
+    const styles = twClassListToPandaStyles(classList, tailwind, panda, options);
     if (!styles.length) return;
 
     const merged = mergeCss(...styles.map((s) => s.styles));
@@ -10,9 +10,22 @@ export * from "./maybe-pretty";
 export * from "./panda-context";
 export * from "./rewrite-html-to-panda";
 export * from "./rewrite-tw-file-content-to-panda";
+export * from "./tw-breakpoints";
 export * from "./tw-class-list-to-panda-styles";
+export * from "./tw-composite-utilities";
+export * from "./tw-container-queries";
 export * from "./tw-context";
+export * from "./tw-custom-utilities";
+export * from "./tw-custom-variants";
+export * from "./tw-dark-mode";
+export * from "./tw-gradients";
+export * from "./tw-group-conditions";
+export * from "./tw-internal-vars";
+export * from "./tw-keyframes";
 export * from "./tw-parser";
+export * from "./tw-semantic-colors";
+export * from "./tw-space-to-gap";
+export * from "./tw-text-styles";
 export * from "./tw-to-panda";
 export * from "./tw-types";
 export * from "./types";
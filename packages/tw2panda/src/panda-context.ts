@@ -27,6 +27,8 @@ import type { Root } from "postcss";
 interface PartialConfig extends Omit<LoadConfigResult, "config"> {
   hooks: PandaHookable;
   config: Config;
+  /** The Panda version of the project to target, see `findPandaVersion` */
+  version?: string | undefined;
 }
 
 const createContext = (conf: PartialConfig) => {
@@ -46,6 +48,7 @@ const createContext = (conf: PartialConfig) => {
 
   return {
     ...(generator as any as Generator),
+    version: conf.version,
     project: {
       ...project,
       addSourceFile: (file: string, content: string) => {
@@ -59,7 +62,7 @@ const createContext = (conf: PartialConfig) => {
 /**
  * This is a lightweight/in-memory version of the panda context, that doesn't require filesystem access
  * For a more feature-complete version, use `loadConfigAndCreateContext` from `@pandacss/node`
- * Mostly used for testing, also used for the `convert` command in the CLI with `twClassListToPanda`
+ * Mostly used for testing, also used by `twClassListToPanda` when no panda context is provided
  */
 export const createPandaContext = (conf?: Partial<PartialConfig>) => {
   return createContext({
@@ -77,6 +80,28 @@ export const createPandaContext = (conf?: Partial<PartialConfig>) => {
 };
 export interface PandaContext extends ReturnType<typeof createPandaContext> {}
 
+/**
+ * Whether the targeted Panda version is at least `minVersion`
+ * Contexts without a version (in-memory ones, or Panda not installed) are assumed to be on the oldest supported one
+ */
+const isPandaVersionAtLeast = (panda: PandaContext, minVersion: string) => {
+  if (!panda.version) return false;
+
+  const [major = 0, minor = 0] = panda.version.split(".").map(Number);
+  const [minMajor = 0, minMinor = 0] = minVersion.split(".").map(Number);
+  return major > minMajor || (major === minMajor && minor >= minMinor);
+};
+
+/**
+ * Whether Panda expands color opacity modifiers, e.g. `bg: "red.500/50"` (since v0.27.0)
+ */
+export const supportsColorOpacityModifier = (panda: PandaContext) => isPandaVersionAtLeast(panda, "0.27.0");
+
+/**
+ * Whether Panda has container query conditions from the `containerSizes` & `containerNames` theme, e.g. `@sidebar/md` (since v0.40.0)
+ */
+export const supportsContainerQueryConditions = (panda: PandaContext) => isPandaVersionAtLeast(panda, "0.40.0");
+
 type Generator = {
   getArtifacts: () => Artifact[];
   getCss: (options: { files: string[]; resolve?: boolean | undefined }) => string;
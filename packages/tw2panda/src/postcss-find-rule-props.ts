@@ -1,30 +1,47 @@
 import type * as P from "postcss";
 
-export const findRuleProps = (root: P.Rule | P.AtRule | P.Declaration) => {
-  let rules = [root];
-  let rule: P.Rule | P.AtRule | P.Declaration | undefined;
+export interface RuleProp {
+  propName: string;
+  value: string;
+  important: boolean;
+  /** The nested selectors & at-rules (e.g. `&::placeholder`, `@media print`) wrapping the declaration, outermost first */
+  conditions: string[];
+}
 
-  const propNameList = [];
+export interface FindRulePropsOptions {
+  /** Also return the CSS variables declarations, e.g. `--tw-translate-x` */
+  variables?: boolean;
+}
 
-  while (rules.length > 0) {
-    rule = rules.shift()!;
+/**
+ * Find every declaration nested in a rule, along with the selectors & at-rules it's nested in
+ * CSS variables declarations are skipped unless the `variables` option is set
+ */
+export const findRuleProps = (
+  root: P.Rule | P.AtRule | P.Declaration,
+  conditions: string[] = [],
+  options: FindRulePropsOptions = {},
+): RuleProp[] => {
+  if (root.type === "decl") {
+    if (root.prop.startsWith("--") && !options.variables) return [];
+    return [{ propName: root.prop, value: root.value, important: root.important, conditions }];
+  }
+
+  const propNameList = [] as RuleProp[];
 
-    if (rule.type === "decl") {
-      if (rule.prop.startsWith("--")) continue;
-      propNameList.push({ propName: rule.prop, value: rule.value });
-      continue;
+  root.each((node) => {
+    if (node.type === "decl") {
+      propNameList.push(...findRuleProps(node, conditions, options));
     }
 
-    if (rule.type === "atrule") {
-      rules.unshift(...(rule.nodes as any));
-      continue;
+    if (node.type === "rule") {
+      propNameList.push(...findRuleProps(node, [...conditions, node.selector], options));
     }
 
-    if (rule.type === "rule") {
-      rules.unshift(...(rule.nodes as any));
-      continue;
+    if (node.type === "atrule") {
+      propNameList.push(...findRuleProps(node, [...conditions, `@${node.name} ${node.params}`], options));
     }
-  }
+  });
 
   return propNameList;
 };
@@ -2,7 +2,10 @@
  * Utilities for resolving module paths in both ESM and CJS contexts
  */
 
-import { dirname } from "pathe";
+import findUp from "escalade/sync";
+import { existsSync, readFileSync, statSync } from "fs";
+import { createRequire } from "module";
+import { dirname, extname, isAbsolute, join, resolve } from "pathe";
 
 /**
  * Resolve a module path - works in both ESM and CJS
@@ -27,3 +30,117 @@ export function getModuleDir(specifier: string): string {
 export function getTailwindDir(): string {
   return dirname(resolveModule("tailwindcss/package.json"));
 }
+
+/**
+ * Find the directory of a package installed in a `node_modules` folder, walking up from `base`
+ * Falls back to the copy resolvable from tw2panda itself (e.g. our own `tailwindcss` dependency)
+ */
+export function findPackageDir(packageName: string, base: string): string | undefined {
+  const packageJsonPath = join("node_modules", packageName, "package.json");
+  const from = base || ".";
+  const found = existsSync(from)
+    ? findUp(from, (dir) => (existsSync(join(dir, packageJsonPath)) ? packageJsonPath : undefined))
+    : undefined;
+  if (found) return dirname(found);
+
+  try {
+    return getModuleDir(`${packageName}/package.json`);
+  } catch {
+    return;
+  }
+}
+
+/**
+ * Split a bare module specifier into its package name and subpath
+ * "tailwindcss/theme.css" -> ["tailwindcss", "./theme.css"]
+ * "@acme/ui/styles" -> ["@acme/ui", "./styles"]
+ */
+export function splitSpecifier(specifier: string): [name: string, subpath: string] {
+  const parts = specifier.split("/");
+  const nameLength = specifier.startsWith("@") ? 2 : 1;
+  const name = parts.slice(0, nameLength).join("/");
+  const rest = parts.slice(nameLength).join("/");
+  return [name, rest ? `./${rest}` : "."];
+}
+
+type ExportsEntry = string | null | undefined | { [condition: string]: ExportsEntry };
+
+/** The package.json fields used to resolve a stylesheet */
+type PackageJson = { exports?: ExportsEntry; style?: string | undefined };
+
+/** Pick the target of a package.json `exports` entry, preferring the given conditions in order */
+function getExportTarget(entry: ExportsEntry, conditions: string[]): string | undefined {
+  if (!entry) return;
+  if (typeof entry === "string") return entry;
+
+  for (const condition of conditions) {
+    const target = getExportTarget(entry[condition], conditions);
+    if (target) return target;
+  }
+
+  return;
+}
+
+/** Read the package.json `exports` entry matching a subpath, handling the `exports: "./index.js"` & conditions-only shorthands */
+function getSubpathExport(pkg: PackageJson, subpath: string): ExportsEntry {
+  const { exports } = pkg;
+  if (!exports) return;
+  if (typeof exports === "string") return subpath === "." ? exports : undefined;
+
+  const isSubpathMap = Object.keys(exports).some((key) => key.startsWith("."));
+  if (!isSubpathMap) return subpath === "." ? exports : undefined;
+
+  return exports[subpath];
+}
+
+const toExistingFile = (path: string, extensions: string[]) => {
+  if (existsSync(path) && statSync(path).isFile()) return path;
+  if (extname(path)) return;
+
+  return extensions.map((ext) => path + ext).find((candidate) => existsSync(candidate));
+};
+
+/**
+ * Resolve a stylesheet `@import` the same way Tailwind's own integrations do:
+ * - relative & absolute paths are resolved against `base`
+ * - bare specifiers are resolved from the closest `node_modules`, using the package.json `style` condition/field
+ */
+export function resolveStylesheet(id: string, base: string): string | undefined {
+  if (id.startsWith(".") || isAbsolute(id)) {
+    return toExistingFile(resolve(base, id), [".css"]);
+  }
+
+  const [packageName, subpath] = splitSpecifier(id);
+  const packageDir = findPackageDir(packageName, base);
+  if (!packageDir) return;
+
+  const pkg: PackageJson = JSON.parse(readFileSync(join(packageDir, "package.json"), "utf-8"));
+  const exported = getExportTarget(getSubpathExport(pkg, subpath), ["style", "default"]);
+  const target = exported ?? (subpath === "." ? pkg.style ?? "index.css" : subpath);
+
+  return toExistingFile(join(packageDir, target), [".css"]);
+}
+
+const MODULE_EXTENSIONS = [".js", ".cjs", ".mjs", ".ts", ".cts", ".mts"];
+
+/**
+ * Resolve a JS module (e.g. an `@plugin` or `@config` target) the way Node would from `base`:
+ * - relative & absolute paths are resolved against `base`, extensions are optional
+ * - bare specifiers are resolved from the closest `node_modules`, falling back to the ones resolvable from tw2panda
+ */
+export function resolveModuleFrom(specifier: string, base: string): string | undefined {
+  if (specifier.startsWith(".") || isAbsolute(specifier)) {
+    const path = resolve(base, specifier);
+    return toExistingFile(path, MODULE_EXTENSIONS) ?? toExistingFile(join(path, "index"), MODULE_EXTENSIONS);
+  }
+
+  try {
+    return createRequire(resolve(base || ".", "noop.js")).resolve(specifier);
+  } catch {
+    try {
+      return resolveModule(specifier);
+    } catch {
+      return;
+    }
+  }
+}
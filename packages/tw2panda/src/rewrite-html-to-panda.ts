@@ -10,6 +10,8 @@ import { twClassListToPandaStyles } from "./tw-class-list-to-panda-styles";
 import { mapToShorthands } from "./panda-map-to-shorthands";
 import { extractBodyContent, extractClassAttributes, htmlToJsx, toPascalCase } from "./html-to-jsx";
 import type { TailwindContext } from "./tw-types";
+import { getTailwindPrefix, toTwV4ClassName } from "./tw-context";
+import { getMarkerClassHook, isTailwindMarkerClass } from "./tw-group-conditions";
 import type { RewriteOptions } from "./types";
 
 export interface HtmlToPandaOptions extends RewriteOptions {
@@ -40,22 +42,6 @@ export interface ConvertedClass {
   classesToKeep: string[];
 }
 
-/**
- * Tailwind marker classes that don't generate CSS but are needed for variants
- * - `group` / `group/{name}` - for group-hover:, group-focus:, etc.
- * - `peer` / `peer/{name}` - for peer-checked:, peer-focus:, etc.
- * @see https://tailwindcss.com/docs/hover-focus-and-other-states#styling-based-on-parent-state
- */
-const TAILWIND_MARKER_CLASS_PATTERN = /^(group|peer)(\/[\w-]+)?$/;
-
-/**
- * Check if a class is a Tailwind marker class (group, peer, etc.)
- * These don't generate CSS but must be kept for variant selectors to work
- */
-function isTailwindMarkerClass(cls: string): boolean {
-  return TAILWIND_MARKER_CLASS_PATTERN.test(cls);
-}
-
 /**
  * Convert a Tailwind class list to Panda CSS object string
  */
@@ -78,19 +64,25 @@ export function convertClassesToPandaString(
   const markerClasses: string[] = [];
   const twClasses = new Set<string>();
 
+  const prefix = getTailwindPrefix(tailwind);
+
   classList.forEach((cls) => {
+    // tw-flex -> tw:flex when the design system was loaded from a v3 config with `prefix: "tw-"`
+    const twClass = toTwV4ClassName(cls, tailwind);
+
     // Check for Tailwind marker classes (group, peer) - keep these but don't report as unconverted
-    if (isTailwindMarkerClass(cls)) {
-      markerClasses.push(cls);
+    if (isTailwindMarkerClass(twClass, prefix)) {
+      // group/item -> group-item, the class hook used by the generated Panda conditions
+      markerClasses.push(getMarkerClassHook(twClass, prefix));
       return;
     }
 
     // Check if it generates CSS - if not, it's a custom class
-    const css = tailwind.candidatesToCss([cls])[0];
+    const css = tailwind.candidatesToCss([twClass])[0];
     if (!css) {
       customClasses.push(cls);
     } else {
-      twClasses.add(cls);
+      twClasses.add(twClass);
     }
   });
 
@@ -102,7 +94,7 @@ export function convertClassesToPandaString(
     return { pandaString: "", unconverted: customClasses, classesToKeep };
   }
 
-  const styles = twClassListToPandaStyles(twClasses, tailwind, panda);
+  const styles = twClassListToPandaStyles(twClasses, tailwind, panda, options);
   if (!styles.length) {
     return { pandaString: "", unconverted: customClasses, classesToKeep };
   }
@@ -1,5 +1,7 @@
 import { PandaContext } from "./panda-context";
 import { TailwindContext } from "./tw-types";
+import { getTailwindPrefix, toTwV4ClassName } from "./tw-context";
+import { getMarkerClassHook, isTailwindMarkerClass } from "./tw-group-conditions";
 import { prettify } from "./maybe-pretty";
 import MagicString from "magic-string";
 import { CallExpression, Node, SourceFile, ts } from "ts-morph";
@@ -9,21 +11,6 @@ import { mapToShorthands } from "./panda-map-to-shorthands";
 import { getStringLiteralText, isStringLike } from "./find-tw-class-candidates";
 import { join, relative } from "pathe";
 
-/**
- * Tailwind marker classes that don't generate CSS but are needed for variants
- * - `group` / `group/{name}` - for group-hover:, group-focus:, etc.
- * - `peer` / `peer/{name}` - for peer-checked:, peer-focus:, etc.
- */
-const TAILWIND_MARKER_CLASS_PATTERN = /^(group|peer)(\/[\w-]+)?$/;
-
-/**
- * Check if a class is a Tailwind marker class (group, peer, etc.)
- * These don't generate CSS but must be kept for variant selectors to work
- */
-function isTailwindMarkerClass(cls: string): boolean {
-  return TAILWIND_MARKER_CLASS_PATTERN.test(cls);
-}
-
 /**
  * Separate a class list into Tailwind utilities, marker classes, and custom classes
  */
@@ -35,19 +22,25 @@ function categorizeClasses(
   const markerClasses: string[] = [];
   const customClasses: string[] = [];
 
+  const prefix = getTailwindPrefix(tailwind);
+
   classList.forEach((cls) => {
+    // tw-flex -> tw:flex when the design system was loaded from a v3 config with `prefix: "tw-"`
+    const twClass = toTwV4ClassName(cls, tailwind);
+
     // Check for Tailwind marker classes (group, peer) - keep these
-    if (isTailwindMarkerClass(cls)) {
-      markerClasses.push(cls);
+    if (isTailwindMarkerClass(twClass, prefix)) {
+      // group/item -> group-item, the class hook used by the generated Panda conditions
+      markerClasses.push(getMarkerClassHook(twClass, prefix));
       return;
     }
 
     // Check if it generates CSS - if not, it's a custom class
-    const css = tailwind.candidatesToCss([cls])[0];
+    const css = tailwind.candidatesToCss([twClass])[0];
     if (!css) {
       customClasses.push(cls);
     } else {
-      twClasses.add(cls);
+      twClasses.add(twClass);
     }
   });
 
@@ -138,7 +131,7 @@ export function rewriteTwFileContentToPanda(
 
       if (!twClasses.size) return;
 
-      const styles = twClassListToPandaStyles(twClasses, tailwind, panda);
+      const styles = twClassListToPandaStyles(twClasses, tailwind, panda, options);
       if (!styles.length) return;
 
       const merged = mergeCss(...styles.map((s) => s.styles));
@@ -184,7 +177,7 @@ export function rewriteTwFileContentToPanda(
         return;
       }
 
-      const styles = twClassListToPandaStyles(twClasses, tailwind, panda);
+      const styles = twClassListToPandaStyles(twClasses, tailwind, panda, options);
       if (!styles.length) return;
 
       const merged = mergeCss(...styles.map((s) => s.styles));
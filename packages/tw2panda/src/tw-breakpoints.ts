@@ -0,0 +1,136 @@
+/**
+ * Tailwind breakpoint variants to Panda breakpoint conditions, compared by their actual values
+ *
+ * `md:` -> `md`, `max-md:` -> `smDown`, `md:max-lg:` -> `mdOnly` (with Panda's default breakpoints)
+ * variants without a Panda condition of the same range are kept as their raw media query, e.g. `@media (width >= 120rem)`
+ * breakpoints defined with different values in both are listed by `getBreakpointMismatches`, for the CLI & report to show
+ */
+
+import type { PandaContext } from "./panda-context";
+import { getVariantWrappers } from "./tw-context";
+import type { TailwindContext } from "./tw-types";
+
+interface BreakpointRange {
+  /** Inclusive min-width in px */
+  min?: number;
+  /** Exclusive max-width in px */
+  max?: number;
+}
+
+/** Panda max-widths are made exclusive by removing 0.02px (or 0.003125em) */
+const MAX_WIDTH_TOLERANCE = 0.1;
+
+const twMediaRegex = /^@media \(width (>=|<) ([\d.]+)(px|r?em)\)$/;
+
+const toPx = (value: number, unit: string) => (unit === "px" ? value : value * 16);
+
+const parseLength = (length: string) => {
+  const match = length.match(/^([\d.]+)(px|r?em)$/);
+  return match?.[1] && match[2] ? toPx(Number(match[1]), match[2]) : undefined;
+};
+
+const isSameWidth = (a: number | undefined, b: number | undefined) =>
+  a === undefined || b === undefined ? a === b : Math.abs(a - b) < MAX_WIDTH_TOLERANCE;
+
+/**
+ * Get the range of a Tailwind breakpoint variant
+ * md -> { min: 768 }, max-lg -> { max: 1024 }, min-[300px] -> { min: 300 }
+ */
+const getTwBreakpointRange = (variant: string, tailwind: TailwindContext): BreakpointRange | undefined => {
+  const wrappers = getVariantWrappers(variant, tailwind);
+  const match = wrappers.length === 1 ? wrappers[0]?.match(twMediaRegex) : undefined;
+  if (!match?.[2] || !match[3]) return;
+
+  const width = toPx(Number(match[2]), match[3]);
+  return match[1] === ">=" ? { min: width } : { max: width };
+};
+
+/**
+ * Get the ranges of the Panda breakpoint conditions (`md`, `mdOnly`, `mdDown`, `mdToLg`, ...)
+ * Read from the generated media queries, since the meaning of `Down`/`To` ranges changed between Panda versions
+ */
+const getPandaBreakpointRanges = (panda: PandaContext) => {
+  const ranges = new Map<string, BreakpointRange>();
+
+  Object.entries(panda.conditions.values).forEach(([name, condition]) => {
+    const { params } = condition as { params?: string };
+    if ((condition as { name?: string }).name !== "breakpoint" || !params) return;
+
+    const min = parseLength(params.match(/min-width:\s*([\d.]+(?:px|r?em))/)?.[1] ?? "");
+    const max = parseLength(params.match(/max-width:\s*([\d.]+(?:px|r?em))/)?.[1] ?? "");
+    const range: BreakpointRange = {};
+    if (min !== undefined) range.min = min;
+    if (max !== undefined) range.max = max;
+
+    ranges.set(name, range);
+  });
+
+  return ranges;
+};
+
+export interface BreakpointMismatch {
+  /** The breakpoint name, e.g. `md` */
+  name: string;
+  /** The Tailwind `--breakpoint-*` value, e.g. `50rem` */
+  tailwind: string;
+  /** The Panda `breakpoints` value, e.g. `768px` */
+  panda: string;
+}
+
+/**
+ * Get the breakpoints defined in both the Tailwind `--breakpoint-*` theme and the Panda `breakpoints` with different values
+ */
+export const getBreakpointMismatches = (tailwind: TailwindContext, panda: PandaContext) => {
+  const pandaBreakpoints = (panda.config.theme?.breakpoints ?? {}) as Record<string, string>;
+  const mismatches = [] as BreakpointMismatch[];
+
+  tailwind.theme.namespace("--breakpoint").forEach((value, name) => {
+    const pandaValue = name !== null ? pandaBreakpoints[name] : undefined;
+    if (name === null || !pandaValue) return;
+
+    if (!isSameWidth(parseLength(value), parseLength(pandaValue))) {
+      mismatches.push({ name, tailwind: value, panda: pandaValue });
+    }
+  });
+
+  return mismatches;
+};
+
+/**
+ * Replace the breakpoint variants of a class with the Panda breakpoint condition covering the same range
+ * Stacked variants are combined, `md:max-lg:` -> `mdToLg` (or `mdOnly`, depending on the Panda version)
+ * When there's no such condition, each breakpoint variant is replaced by its raw media query
+ */
+export const mergeTwBreakpointVariants = (variants: string[], tailwind: TailwindContext, panda: PandaContext) => {
+  const range: BreakpointRange = {};
+  const indexes = [] as number[];
+
+  variants.forEach((variant, index) => {
+    const variantRange = getTwBreakpointRange(variant, tailwind);
+    if (!variantRange) return;
+
+    if (variantRange.min !== undefined) range.min = Math.max(range.min ?? 0, variantRange.min);
+    if (variantRange.max !== undefined) range.max = Math.min(range.max ?? Infinity, variantRange.max);
+    indexes.push(index);
+  });
+
+  const [firstIndex] = indexes;
+  if (firstIndex === undefined) return variants;
+
+  const pandaRanges = getPandaBreakpointRanges(panda);
+  const condition = Array.from(pandaRanges.keys()).find((name) => {
+    const pandaRange = pandaRanges.get(name)!;
+    return isSameWidth(pandaRange.min, range.min) && isSameWidth(pandaRange.max, range.max);
+  });
+
+  if (!condition) {
+    return variants.map((variant, index) =>
+      indexes.includes(index) ? getVariantWrappers(variant, tailwind)[0] ?? variant : variant,
+    );
+  }
+
+  return variants.flatMap((variant, index) => {
+    if (index === firstIndex) return [condition];
+    return indexes.includes(index) ? [] : [variant];
+  });
+};
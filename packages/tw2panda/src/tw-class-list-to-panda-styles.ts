@@ -1,7 +1,24 @@
-import { PandaContext } from "./panda-context";
+import postcss from "postcss";
+import { selectorToCondition } from "./css-to-panda";
+import { PandaContext, supportsColorOpacityModifier } from "./panda-context";
+import { findRuleProps } from "./postcss-find-rule-props";
 import { parseTwClassName } from "./tw-parser";
-import { TailwindContext } from "./tw-types";
-import { MatchingToken, StyleObject } from "./types";
+import { getTailwindPrefix, getTwParserOptions, getVariantWrappers, toTwV4ClassName } from "./tw-context";
+import { findTwCustomUtility } from "./tw-custom-utilities";
+import { mergeTwBreakpointVariants } from "./tw-breakpoints";
+import { findPandaCompositeUtility } from "./tw-composite-utilities";
+import { getTwContainerCondition } from "./tw-container-queries";
+import { getTwCustomVariants } from "./tw-custom-variants";
+import { getTwDarkMode, TwDarkMode } from "./tw-dark-mode";
+import { getTwGradientUtilities, TwGradientUtility } from "./tw-gradients";
+import { getTwGroupCondition } from "./tw-group-conditions";
+import { composeTwInternalVars, simplifyComposedValue, TwComposedProperty } from "./tw-internal-vars";
+import { toPandaAnimation } from "./tw-keyframes";
+import { findTwSemanticColor, formatTwSemanticColorToken } from "./tw-semantic-colors";
+import { getTwSpaceToGapClasses } from "./tw-space-to-gap";
+import { findTwTextStyle } from "./tw-text-styles";
+import { TailwindCandidate, TailwindContext } from "./tw-types";
+import { MatchingToken, RewriteOptions, StyleObject, TailwindClass } from "./types";
 
 const kebabToCamel = (str: string) => str.replace(/(-\w)/g, (group) => (group[1] ?? "").toUpperCase());
 
@@ -11,16 +28,25 @@ export interface ParsedCssProperty {
   tokenPath: string;
   /** The original/resolved CSS value (e.g., "#6b7280") */
   rawValue: string;
+  /** The selectors/at-rules nested in the utility CSS, e.g. `:where(& > :not(:last-child))` for `space-x-4` */
+  conditions: string[];
+  /** The opacity percentage of a color modifier (e.g., "50" for `bg-red-500/50`) */
+  opacity?: string;
 }
 
 /**
  * Resolve a CSS variable reference to its actual value using Tailwind's theme
  * var(--text-xs) -> "0.75rem"
  * var(--color-gray-500) -> "oklch(0.551 0.027 264.364)"
+ * var(--primary) -> "token(colors.primary)" (defined under `:root` & `.dark`)
+ *
+ * With `keepColorTokens`, theme colors stay Panda token references, e.g. within a composed `box-shadow`
+ * var(--color-red-500) -> "token(colors.red.500, oklch(63.7% 0.237 25.331))"
  */
-function resolveCssVariable(value: string, tailwind: TailwindContext): string {
+function resolveCssVariable(value: string, tailwind: TailwindContext, keepColorTokens = false): string {
   // Extract all var(--xxx) references and resolve them
   const varRegex = /var\(([^)]+)\)/g;
+  const prefix = getTailwindPrefix(tailwind);
   let resolved = value;
   let match;
 
@@ -28,16 +54,54 @@ function resolveCssVariable(value: string, tailwind: TailwindContext): string {
     const varName = match[1]?.trim();
     if (!varName) continue;
 
+    const semanticColor = findTwSemanticColor(unprefixVarName(varName, prefix), tailwind);
+    if (semanticColor) {
+      resolved = resolved.replace(match[0], formatTwSemanticColorToken(semanticColor));
+      continue;
+    }
+
     // Try to resolve the variable
-    const resolvedValue = tailwind.resolveThemeValue?.(varName);
+    const themeVarName = unprefixVarName(varName, prefix);
+    const resolvedValue = tailwind.resolveThemeValue?.(themeVarName);
     if (resolvedValue && !resolvedValue.includes("var(")) {
-      resolved = resolved.replace(match[0], resolvedValue);
+      const isColor = keepColorTokens && themeVarName.startsWith("--color-");
+      const replacement = isColor
+        ? `token(colors.${varNameToTokenPath(themeVarName)}, ${resolvedValue})`
+        : resolvedValue;
+      resolved = resolved.replace(match[0], replacement);
     }
   }
 
   return resolved;
 }
 
+/**
+ * Theme variables are emitted with the configured prefix, but registered without it
+ * --tw-color-gray-500 -> --color-gray-500 (with `prefix(tw)`)
+ */
+function unprefixVarName(varName: string, prefix: string | null): string {
+  if (!prefix || !varName.startsWith(`--${prefix}-`)) return varName;
+  return "--" + varName.slice(prefix.length + 3);
+}
+
+/**
+ * Simplify the calc() Tailwind generates for fractions & negative values into a literal
+ * calc(1/2 * 100%) -> "50%"
+ * calc(10 * -1) -> "-10"
+ * calc(calc(1/2 * 100%) * -1) -> "-50%"
+ */
+function simplifyCalc(value: string): string {
+  const simplified = value.replace(/calc\((\d+)\/(\d+) \* 100%\)/g, (match, numerator: string, denominator: string) => {
+    const percentage = (Number(numerator) / Number(denominator)) * 100;
+    return Number.isFinite(percentage) ? `${Number(percentage.toFixed(6))}%` : match;
+  });
+
+  const negated = simplified.match(/^calc\((-?[\d.]+[a-z%]*) \* -1\)$/);
+  if (!negated?.[1]) return simplified;
+
+  return negated[1].startsWith("-") ? negated[1].slice(1) : `-${negated[1]}`;
+}
+
 /**
  * Extract token path from a CSS variable name
  * --color-gray-500 -> "gray.500"
@@ -73,35 +137,58 @@ function varNameToTokenPath(varName: string): string {
   return name.replace(/-/g, ".");
 }
 
+const colorMixRegex = /^color-mix\(in [\w-]+, var\((--[\w-]+)\) (\d+(?:\.\d+)?)%, transparent\)$/;
+
 /**
- * Parse CSS string to extract property-value pairs.
- * Handles both flat CSS and nested CSS (v4 style).
+ * Parse the CSS generated for a class into its declarations, using a postcss AST walk
+ * Only the class rule is kept (e.g. not the `@property` fallbacks), along with the selectors/at-rules nested in it
  * Returns both the token path and the resolved raw value.
  */
 function parseCssProperties(css: string, tailwind: TailwindContext): ParsedCssProperty[] {
   const properties: ParsedCssProperty[] = [];
 
-  // Find all CSS property declarations (property: value;) anywhere in the CSS
-  const declarationRegex = /([a-z-]+)\s*:\s*([^;{}]+);/gi;
-  let match;
+  const prefix = getTailwindPrefix(tailwind);
+  const spacingCalcRegex = new RegExp(
+    `calc\\(var\\(--${prefix ? prefix + "-" : ""}spacing\\)\\s*\\*\\s*(-?\\d+(?:\\.\\d+)?)\\)`,
+  );
 
-  while ((match = declarationRegex.exec(css)) !== null) {
-    const propName = match[1]?.trim();
-    const originalValue = match[2]?.trim();
-
-    if (!propName || !originalValue) continue;
-
-    // Skip CSS variables declarations
-    if (propName.startsWith("--")) continue;
-
-    // Skip @property descriptor properties
-    if (propName === "syntax" || propName === "inherits" || propName === "initial-value") continue;
+  const ruleProps = postcss.parse(css).nodes.flatMap((node) => (node.type === "rule" ? findRuleProps(node) : []));
 
+  ruleProps.forEach(({ propName, value: originalValue, conditions }) => {
     let tokenPath = originalValue;
     let rawValue = originalValue;
 
+    // Handle color opacity modifiers: color-mix(in oklab, var(--color-red-500) 50%, transparent) -> "red.500", "#ef4444", "50"
+    // or with a semantic color: color-mix(in oklab, var(--primary) 90%, transparent) -> "primary", "token(colors.primary)", "90"
+    const colorMixMatch = originalValue.match(colorMixRegex);
+    const colorVarName = colorMixMatch?.[1] ? unprefixVarName(colorMixMatch[1], prefix) : undefined;
+    const semanticColor = colorVarName ? findTwSemanticColor(colorVarName, tailwind) : undefined;
+    if (colorMixMatch?.[2] && semanticColor) {
+      properties.push({
+        propName,
+        tokenPath: semanticColor.path,
+        rawValue: formatTwSemanticColorToken(semanticColor),
+        conditions,
+        opacity: colorMixMatch[2],
+      });
+      return;
+    }
+
+    const color = colorVarName ? tailwind.resolveThemeValue?.(colorVarName) : undefined;
+    if (colorMixMatch?.[2] && colorVarName && color) {
+      properties.push({
+        propName,
+        tokenPath: varNameToTokenPath(colorVarName),
+        rawValue: resolveCssVariable(color, tailwind),
+        conditions,
+        opacity: colorMixMatch[2],
+      });
+      return;
+    }
+
     // Handle calc() with spacing multiplier: calc(var(--spacing) * 4) -> "4", "1rem"
-    const spacingCalcMatch = originalValue.match(/calc\(var\(--spacing\)\s*\*\s*(\d+(?:\.\d+)?)\)/);
+    // negative ones have no Panda token: calc(var(--spacing) * -4) -> "-1rem", "-1rem"
+    const spacingCalcMatch = originalValue.match(spacingCalcRegex);
     if (spacingCalcMatch?.[1]) {
       tokenPath = spacingCalcMatch[1];
       const baseSpacing = tailwind.resolveThemeValue?.("--spacing");
@@ -110,27 +197,98 @@ function parseCssProperties(css: string, tailwind: TailwindContext): ParsedCssPr
         const baseValue = parseFloat(baseSpacing);
         if (!isNaN(multiplier) && !isNaN(baseValue)) {
           rawValue = `${baseValue * multiplier}rem`;
+          if (multiplier < 0) tokenPath = rawValue;
         }
       }
     }
+    // Handle fractions & negative values: calc(1/2 * 100%) -> "50%", calc(10 * -1) -> "-10"
+    else if (simplifyCalc(originalValue) !== originalValue) {
+      tokenPath = rawValue = simplifyCalc(originalValue);
+    }
     // Handle simple var() references
     else if (originalValue.includes("var(--")) {
       // Extract the first var() for the token path
       const varMatch = originalValue.match(/var\(([^)]+)\)/);
-      if (varMatch?.[1]) {
-        tokenPath = varNameToTokenPath(varMatch[1]);
+      const varName = varMatch?.[1] ? unprefixVarName(varMatch[1], prefix) : undefined;
+      // Semantic colors are used as-is, since their value depends on the color mode: var(--primary) -> "primary"
+      const semanticColor =
+        varName && varMatch?.[0] === originalValue.trim() ? findTwSemanticColor(varName, tailwind) : undefined;
+
+      if (semanticColor) {
+        tokenPath = rawValue = semanticColor.path;
+      } else {
+        if (varName) tokenPath = varNameToTokenPath(varName);
+        // Resolve ALL var() references in the value to get the raw value
+        rawValue = resolveCssVariable(originalValue, tailwind);
       }
-
-      // Resolve ALL var() references in the value to get the raw value
-      rawValue = resolveCssVariable(originalValue, tailwind);
     }
 
-    properties.push({ propName, tokenPath, rawValue });
-  }
+    properties.push({ propName, tokenPath, rawValue, conditions });
+  });
 
   return properties;
 }
 
+/**
+ * Map the selectors/at-rules nested in a utility to Panda conditions, or keep them as arbitrary selectors
+ * &::placeholder -> _placeholder
+ * :where(& > :not(:last-child)) -> ":where(& > :not(:last-child))"
+ */
+function toPandaConditions(conditions: string[], panda: PandaContext) {
+  return conditions.map((condition) => toPandaCondition(condition, panda));
+}
+
+/**
+ * Map a selector/at-rule to a Panda condition when there's an equivalent one, or to a valid arbitrary selector
+ * &::placeholder -> _placeholder
+ * &[data-state="open"] -> _open, when Panda's `_open` matches `[data-state=open]` (Radix-style state)
+ * &[data-highlighted] -> _highlighted
+ * &>svg -> "& > svg"
+ */
+function toPandaCondition(condition: string, panda: PandaContext) {
+  const conditions = panda.conditions.values;
+
+  const pandaCondition = selectorToCondition(condition);
+  if (pandaCondition && conditions[pandaCondition]) return pandaCondition;
+
+  // Only when the Panda condition targets `data-state`, e.g. not the preset `_open` (`&[open]`)
+  const dataState = condition.match(/^&\[data-state="?([\w-]+)"?\]$/)?.[1];
+  const stateCondition = dataState && "_" + kebabToCamel(dataState);
+  const stateSelector = stateCondition ? conditions[stateCondition]?.raw.replace(/"/g, "") : undefined;
+  if (stateCondition && stateSelector?.includes(`[data-state=${dataState}]`)) return stateCondition;
+
+  // Panda conditions often match several selectors, e.g. `&:is(:disabled, [disabled], [data-disabled])`
+  const selector = condition.replace(/"/g, "");
+  const matchingCondition = Object.entries(conditions).find(([name, { raw }]) => {
+    if (!name.startsWith("_")) return false;
+    if (raw === selector) return true;
+
+    const alternatives = raw.match(/^&:is\((.+)\)$/)?.[1];
+    return alternatives?.split(/,\s*/).some((alternative) => "&" + alternative === selector);
+  });
+  if (matchingCondition) return matchingCondition[0];
+
+  return condition.startsWith("@") ? condition : normalizeSelector(condition);
+}
+
+/**
+ * Add spaces around top-level combinators of a selector
+ * &>svg -> "& > svg"
+ */
+function normalizeSelector(selector: string) {
+  let depth = 0;
+  let normalized = "";
+
+  for (const char of selector) {
+    if (char === "(" || char === "[") depth++;
+    if (char === ")" || char === "]") depth--;
+
+    normalized += depth === 0 && (char === ">" || char === "+" || char === "~") ? ` ${char} ` : char;
+  }
+
+  return normalized.replace(/\s+/g, " ").trim();
+}
+
 /** Map CSS property names to Panda token categories */
 const PROP_TO_TOKEN_CATEGORY: Record<string, string> = {
   color: "colors",
@@ -252,37 +410,160 @@ function formatTokenValue(propName: string, tokenName: string, rawValue: string)
   return rawValue;
 }
 
+/**
+ * Mark a value as important, using Panda's `!` suffix for Panda values (tokens, utility values)
+ * and `!important` for raw CSS values, never both
+ * token(spacing.4, 1rem) -> "token(spacing.4, 1rem)!"
+ * flex -> "flex !important"
+ */
+function toImportantValue(value: string, rawValue: string): string {
+  return value === rawValue ? `${value} !important` : `${value}!`;
+}
+
+/**
+ * Format a color token with an opacity modifier, using Panda's color opacity modifier syntax when supported
+ * bg-red-500/50 -> "red.500/50" or "color-mix(in oklab, token(colors.red.500, #ef4444) 50%, transparent)"
+ */
+function formatColorOpacity(
+  propName: string,
+  tokenName: string,
+  rawValue: string,
+  opacity: string,
+  panda: PandaContext,
+) {
+  if (supportsColorOpacityModifier(panda)) {
+    return `${tokenName}/${opacity}`;
+  }
+
+  return `color-mix(in oklab, ${formatTokenValue(propName, tokenName, rawValue)} ${opacity}%, transparent)`;
+}
+
+/**
+ * Get an arbitrary Panda selector for a variant Panda has no condition for (e.g. one registered by a `@plugin`)
+ * hocus -> "&:hover, &:focus"
+ */
+function getVariantSelector(modifier: string, tailwind: TailwindContext) {
+  const variant = tailwind.getVariants().find((entry) => entry.name === modifier);
+  const selectors = variant?.selectors({});
+  if (!selectors?.length || !selectors.every((selector) => selector.startsWith("&"))) return;
+
+  return selectors.join(", ");
+}
+
+/**
+ * Get the Panda conditions (outermost first) matching a variant Panda has no condition for,
+ * using the selectors/at-rules Tailwind generates for it
+ * data-[state=open] -> ["_open"]
+ * [&>svg] -> ["& > svg"]
+ * supports-[display:grid] -> ["@supports (display:grid)"]
+ */
+function getVariantConditions(modifier: string, tailwind: TailwindContext, panda: PandaContext) {
+  const selector = getVariantSelector(modifier, tailwind);
+  if (selector) return [selector];
+
+  const wrappers = getVariantWrappers(modifier, tailwind);
+  if (!wrappers.length) return [modifier];
+
+  return toPandaConditions(wrappers, panda);
+}
+
+/**
+ * Get the variants of a class, as written (outermost first)
+ * Uses the design system when it knows the class since the parser doesn't know every variant form, e.g. `data-open:`
+ */
+function getClassVariants(classInfo: TailwindClass, tailwind: TailwindContext) {
+  const [candidate] = tailwind.parseCandidate(classInfo.className);
+  if (!candidate) return classInfo.modifiers;
+
+  return candidate.variants.map((variant) => tailwind.printVariant(variant)).reverse();
+}
+
 /**
  * Takes a list of Tailwind class names and convert them to a list of Panda style objects
  */
-export const twClassListToPandaStyles = (classList: Set<string>, tailwind: TailwindContext, panda: PandaContext) => {
+export const twClassListToPandaStyles = (
+  classList: Set<string>,
+  tailwind: TailwindContext,
+  panda: PandaContext,
+  options: RewriteOptions = {},
+) => {
+  // tw-flex -> tw:flex when the design system was loaded from a v3 config with `prefix: "tw-"`
+  classList = new Set(Array.from(classList, (className) => toTwV4ClassName(className, tailwind)));
   const styles = [] as Array<{ match: MatchingToken; styles: StyleObject }>;
+  const customVariants = getTwCustomVariants(tailwind);
+  // Resolved on the first `dark:` class, from the `dark` variant of the design system
+  let darkMode: TwDarkMode | undefined;
+  // translate-x-2 translate-y-4 -> both classes get `translate: 0.5rem 1rem`
+  const composedProperties = composeTwInternalVars(classList, tailwind);
+  // bg-linear-to-r from-red-500 -> { backgroundGradient: "to-r", gradientFrom: "red.500" }
+  const gradientUtilities = getTwGradientUtilities(classList, tailwind, panda);
+  // flex space-x-4 -> gap-x-4
+  const gapClasses = options.spaceToGap ? getTwSpaceToGapClasses(classList, tailwind) : new Map<string, string>();
 
   classList.forEach((className) => {
-    const tokens = getMatchingTwCandidates(className, tailwind, panda);
+    const gapClassName = gapClasses.get(className);
+    const composed = gapClassName ? [] : composedProperties.get(className) ?? [];
+    const gradient = gradientUtilities.get(className);
+    const tokens = getMatchingTwCandidates(gapClassName ?? className, tailwind, panda, options, composed, gradient);
 
     tokens.forEach((match) => {
-      const { propName, tokenName, rawValue, classInfo } = match;
+      const { propName, tokenName, rawValue, classInfo, value, conditions = [] } = match;
 
       // Format the value with token() syntax if applicable
-      const formattedValue = formatTokenValue(propName, tokenName, rawValue);
-
-      // dark:text-sky-400 -> { _dark: { color: "token(colors.sky.400, #38bdf8)" } }
+      const formattedValue = value ?? formatTokenValue(propName, tokenName, rawValue);
+      // flex! / !flex -> "flex !important", p-4! -> "token(spacing.4, 1rem)!"
+      const finalValue =
+        classInfo.isImportant && typeof formattedValue === "string"
+          ? toImportantValue(formattedValue, rawValue)
+          : formattedValue;
+
+      // space-x-4 -> { ":where(& > :not(:last-child))": { marginInlineStart: ... } }
+      const utilityStyles = conditions.reduceRight((acc, condition) => ({ [condition]: acc } as StyleObject), {
+        [propName]: finalValue,
+      } as StyleObject);
+
+      // dark:text-sky-400 -> { _osDark: { color: "token(colors.sky.400, #38bdf8)" } } (media-based dark mode)
       // md:p-4 -> { md: { padding: "token(spacing.4, 1rem)" } }
-      const nested = classInfo.modifiers?.reduce(
-        (acc, modifier) => {
-          const camelModifier = kebabToCamel(modifier);
-          const prefixed = "_" + camelModifier;
-          // Check if it's a prefixed condition (like _dark, _hover) or a breakpoint (like md, lg)
-          const isPrefixedCondition = panda.conditions.values[prefixed];
-          const isBreakpointCondition = panda.conditions.values[camelModifier];
-
-          const conditionValue = isPrefixedCondition ? prefixed : isBreakpointCondition ? camelModifier : modifier;
-
-          return { [conditionValue]: acc } as StyleObject;
-        },
-        { [propName]: formattedValue },
-      );
+      // data-[side=left]:[&_p]:hidden -> { "&[data-side=left]": { "& p": { display: "none" } } }
+      // md:max-lg:flex -> { mdToLg: { display: "flex" } }
+      const variants = mergeTwBreakpointVariants(getClassVariants(classInfo, tailwind), tailwind, panda);
+      const nested = variants.reduceRight((acc, modifier) => {
+        // dark:flex -> { _osDark: ... } or { _dark: ... }, depending on how the project defines the `dark` variant
+        if (modifier === "dark") {
+          darkMode ??= getTwDarkMode(tailwind, panda);
+          return darkMode.conditions.reduceRight(
+            (nestedAcc, condition) => ({ [condition]: nestedAcc } as StyleObject),
+            acc,
+          );
+        }
+
+        const camelModifier = kebabToCamel(modifier);
+        const prefixed = "_" + camelModifier;
+        // Check if it's a prefixed condition (like _dark, _hover) or a breakpoint (like md, lg)
+        const isPrefixedCondition = panda.conditions.values[prefixed];
+        const isBreakpointCondition = panda.conditions.values[camelModifier];
+        // Or a condition generated from a `@custom-variant`
+        const isCustomCondition = customVariants.some((variant) => variant.name === modifier);
+
+        if (isPrefixedCondition || isCustomCondition) return { [prefixed]: acc } as StyleObject;
+        if (isBreakpointCondition) return { [camelModifier]: acc } as StyleObject;
+        // Breakpoints without a matching Panda condition, e.g. "@media (width >= 120rem)"
+        if (modifier.startsWith("@media ")) return { [modifier]: acc } as StyleObject;
+
+        // group-hover/item:underline -> { _groupItemHover: { textDecorationLine: "underline" } }
+        const groupCondition = getTwGroupCondition(modifier, tailwind, panda);
+        if (groupCondition) return { ["_" + groupCondition.conditionName]: acc } as StyleObject;
+
+        // @md/sidebar:flex -> { "@sidebar/md": { display: "flex" } }
+        const containerCondition = getTwContainerCondition(modifier, tailwind, panda);
+        if (containerCondition) return { [containerCondition]: acc } as StyleObject;
+
+        // [&>svg]:flex -> { "& > svg": { display: "flex" } }
+        return getVariantConditions(modifier, tailwind, panda).reduceRight(
+          (nestedAcc, condition) => ({ [condition]: nestedAcc } as StyleObject),
+          acc,
+        );
+      }, utilityStyles);
       styles.push({ match, styles: nested });
     });
   });
@@ -290,53 +571,194 @@ export const twClassListToPandaStyles = (classList: Set<string>, tailwind: Tailw
   return styles;
 };
 
-function getMatchingTwCandidates(className: string, tailwind: TailwindContext, panda: PandaContext) {
+/**
+ * Find the Panda utility value matching a negative or fractional Tailwind value, using the utility class name
+ * -mt-4 -> { propName: "marginTop", value: "-4", rawValue: "calc(var(--spacing-4) * -1)" }
+ * -translate-x-1/2 -> { propName: "translateX", value: "-1/2", rawValue: "-50%" }
+ */
+function findPandaUtilityValue(candidate: TailwindCandidate, panda: PandaContext) {
+  if (candidate.kind !== "functional" || !candidate.root) return;
+
+  const value = candidate.value as { kind: string; value: string; fraction?: string | null } | null | undefined;
+  const isNegative = candidate.root.startsWith("-");
+  if (value?.kind !== "named" || (!isNegative && !value.fraction)) return;
+
+  const className = isNegative ? candidate.root.slice(1) : candidate.root;
+  const key = (isNegative ? "-" : "") + (value.fraction ?? value.value);
+
+  for (const [propName, config] of Object.entries(panda.config.utilities ?? {})) {
+    if (!config || config.className !== className) continue;
+
+    const propValues = panda.utility["getPropertyValues"](config) as Record<string, unknown> | undefined;
+    if (propValues?.[key] !== undefined) return { propName, value: key, rawValue: String(propValues[key]) };
+  }
+
+  return;
+}
+
+function getMatchingTwCandidates(
+  className: string,
+  tailwind: TailwindContext,
+  panda: PandaContext,
+  options: RewriteOptions,
+  composed: TwComposedProperty[],
+  gradient: TwGradientUtility | undefined,
+) {
   const tokens = [] as MatchingToken[];
-  const classInfo = parseTwClassName(className);
+  const classInfo = parseTwClassName(className, getTwParserOptions(tailwind));
   if (!classInfo) return tokens;
 
   if (!classInfo.value && !classInfo.permutations) {
     return tokens;
   }
 
-  // Use v4 API to get CSS for the class
-  const cssResults = tailwind.candidatesToCss([className]);
+  // scrollbar-hidden -> { scrollbarHidden: true }, using the Panda utility generated from its `@utility`
+  // (a boolean can't be `!important`, !scrollbar-hidden keeps its declarations instead)
+  const customUtility = findTwCustomUtility(className, tailwind);
+  if (customUtility && !(classInfo.isImportant && typeof customUtility.value !== "string")) {
+    const { utility, value } = customUtility;
+    tokens.push({
+      propName: utility.propName,
+      tokenName: String(value),
+      rawValue: String(value),
+      classInfo,
+      value,
+    });
+    return tokens;
+  }
+
+  const [candidate] = tailwind.parseCandidate(className);
+
+  // [mask-type:luminance] -> { maskType: "luminance" }
+  // [--scroll-offset:44px] -> { "--scroll-offset": "44px" }
+  if (candidate?.kind === "arbitrary" && candidate.property && typeof candidate.value === "string") {
+    const { property, value } = candidate;
+    tokens.push({
+      propName: property.startsWith("--") ? property : kebabToCamel(property),
+      tokenName: value,
+      rawValue: value,
+      classInfo,
+      value,
+    });
+    return tokens;
+  }
+
+  // bg-linear-to-r -> { backgroundGradient: "to-r" }, when the whole gradient has Panda utilities
+  if (gradient) {
+    const { propName, value } = gradient;
+    tokens.push({ propName, tokenName: value, rawValue: value, classInfo, value });
+    return tokens;
+  }
+
+  // truncate -> { truncate: true }, line-clamp-3 -> { lineClamp: 3 }
+  // (unless important, !truncate -> { overflow: "hidden !important", ... })
+  const compositeUtility = candidate && findPandaCompositeUtility(candidate, panda);
+  if (compositeUtility && !(classInfo.isImportant && typeof compositeUtility.value !== "string")) {
+    const { propName, value } = compositeUtility;
+    tokens.push({ propName, tokenName: String(value), rawValue: String(value), classInfo, value });
+    return tokens;
+  }
+
+  // text-sm -> { textStyle: "sm" }, instead of its font-size & paired line-height
+  const textStyle = options.textStyles && candidate ? findTwTextStyle(candidate, tailwind, panda) : undefined;
+  if (textStyle) {
+    tokens.push({ propName: "textStyle", tokenName: textStyle, rawValue: textStyle, classInfo, value: textStyle });
+    return tokens;
+  }
+
+  // -mt-4 -> { marginTop: "-4" }, w-1/2 -> { width: "1/2" }
+  // (unless composed with internal variables, e.g. `-translate-x-1/2 translate-y-2` -> { translate: "-50% 0.5rem" })
+  const pandaUtilityValue = candidate && !composed.length && findPandaUtilityValue(candidate, panda);
+  if (pandaUtilityValue) {
+    const { propName, value, rawValue } = pandaUtilityValue;
+    tokens.push({ propName, tokenName: value, rawValue, classInfo, value });
+    return tokens;
+  }
+
+  // Use v4 API to get CSS for the class, without its variants since those are mapped from `classInfo.modifiers`
+  // md:space-x-4 -> .space-x-4 { :where(& > :not(:last-child)) { ... } }
+  const utilityClassName = candidate ? tailwind.printCandidate({ ...candidate, variants: [] }) : className;
+  const cssResults = tailwind.candidatesToCss([utilityClassName]);
   const css = cssResults[0];
 
   if (!css) return tokens;
 
+  // ring-red-500 -> { boxShadow: "0 0 0 2px token(colors.red.500, oklch(...))" } (with `ring-2`), resolved from the internal variables
+  composed.forEach(({ propName, value, conditions }) => {
+    const rawValue = simplifyComposedValue(resolveCssVariable(value, tailwind, true));
+    const pandaConditions = toPandaConditions(conditions, panda);
+    tokens.push({
+      propName: kebabToCamel(propName),
+      tokenName: rawValue,
+      rawValue,
+      classInfo,
+      conditions: pandaConditions,
+    });
+  });
+
   // Parse the CSS to extract property names, token paths, and raw values
-  const propNameList = parseCssProperties(css, tailwind).map((prop) => ({
-    cssPropName: prop.propName,
-    propName: kebabToCamel(prop.propName),
-    tokenPath: prop.tokenPath,
-    rawValue: prop.rawValue,
-  }));
+  const isComposed = (prop: ParsedCssProperty) =>
+    composed.some(
+      ({ propName, conditions }) => propName === prop.propName && conditions.join(" ") === prop.conditions.join(" "),
+    );
+  const propNameList = parseCssProperties(css, tailwind)
+    .filter((prop) => !isComposed(prop))
+    .map((prop) => ({
+      cssPropName: prop.propName,
+      propName: kebabToCamel(prop.propName),
+      tokenPath: prop.tokenPath,
+      rawValue: prop.rawValue,
+      conditions: toPandaConditions(prop.conditions, panda),
+      opacity: prop.opacity,
+    }));
 
   propNameList.forEach((ruleProp) => {
-    const { propName, tokenPath, rawValue } = ruleProp;
+    const { propName, tokenPath, rawValue, conditions, opacity } = ruleProp;
+
+    // animate-bounce -> "tw-bounce 1s infinite", when Panda's preset defines another `bounce` keyframes
+    if (propName === "animation") {
+      const animation = toPandaAnimation(rawValue, tailwind, panda);
+      tokens.push({ propName, tokenName: animation, rawValue: animation, classInfo, conditions });
+      return;
+    }
+
+    if (opacity) {
+      const value = formatColorOpacity(propName, tokenPath, rawValue, opacity, panda);
+      tokens.push({ propName, tokenName: tokenPath, rawValue, classInfo, conditions, value });
+      return;
+    }
+
     const prop = panda.config.utilities?.[propName];
     const propValues = prop && panda.utility["getPropertyValues"](prop);
 
     let tokenName = tokenPath;
 
     // Check if the token path is a valid utility name or if we don't have prop values
+    // w-(--sidebar-width) / text-(--color-red-500) -> the token path comes from the variable, not the class value
+    // -z-10 / inset-x-1/3 -> the value has no Panda equivalent, the token path is a literal
+    const candidateValue = candidate?.value as
+      | { kind?: string; value?: string; fraction?: string | null }
+      | null
+      | undefined;
+    const isLiteralValue =
+      candidateValue?.kind === "arbitrary" || !!candidateValue?.fraction || !!candidate?.root?.startsWith("-");
     const candidates = tailwind.parseCandidate(tokenPath);
-    if (candidates.length > 0 || !propValues) {
+    if (candidate?.kind === "functional" && candidate.modifier && propValues) {
+      // text-sm/6 -> the font-size comes from the value and the line-height from the modifier, not a Panda token
+      tokenName = (propValues as Record<string, unknown>)[tokenPath] !== undefined ? tokenPath : rawValue;
+    } else if (candidate?.kind === "static") {
+      // container -> "100%" & the breakpoint max-widths, a static utility name is never a Panda token
+      tokenName = rawValue;
+    } else if (candidates.length > 0 || !propValues || isLiteralValue) {
       // Use token path as-is
     } else {
-      // bg-red-500 => red.500
-      tokenName = (classInfo.value ?? "").replace("-", ".");
+      // bg-red-500 => red.500, gap-x-4 => 4 (the `gap-x` root isn't part of the value)
+      const value = candidateValue?.kind === "named" ? candidateValue.value : classInfo.value;
+      tokenName = (value ?? "").replace(/(?!^)-/, ".");
     }
     if (!tokenName) return;
 
-    let finalRawValue = rawValue;
-    if (classInfo.isImportant) {
-      tokenName += "!";
-      finalRawValue += " !important";
-    }
-
-    tokens.push({ propName, tokenName, rawValue: finalRawValue, classInfo });
+    tokens.push({ propName, tokenName, rawValue, classInfo, conditions });
   });
 
   return tokens;
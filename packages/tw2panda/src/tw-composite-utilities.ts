@@ -0,0 +1,59 @@
+/**
+ * Tailwind utilities expanding to several declarations, mapped to the matching Panda utility
+ *
+ * `truncate` -> `truncate: true` instead of `overflow`, `textOverflow` & `whiteSpace`
+ * `line-clamp-3` -> `lineClamp: 3`, `size-10` -> `boxSize: "10"`
+ */
+
+import type { PandaContext } from "./panda-context";
+import type { TailwindCandidate } from "./tw-types";
+
+interface CompositeUtility {
+  /** The Panda utility name, e.g. `lineClamp` */
+  propName: string;
+  /** The value of boolean Panda utilities, e.g. `true` for `truncate` or `false` for `not-sr-only` */
+  booleanValue?: boolean;
+  /** Whether the Panda utility takes a number, e.g. `3` for `line-clamp-3` */
+  numeric?: boolean;
+}
+
+/** Tailwind utility root -> Panda utility */
+const COMPOSITE_UTILITIES: Record<string, CompositeUtility> = {
+  truncate: { propName: "truncate", booleanValue: true },
+  "sr-only": { propName: "srOnly", booleanValue: true },
+  "not-sr-only": { propName: "srOnly", booleanValue: false },
+  "line-clamp": { propName: "lineClamp", numeric: true },
+  size: { propName: "boxSize" },
+  inset: { propName: "inset" },
+};
+
+/**
+ * Find the Panda utility (from the active `utilities` config) a multi-declaration Tailwind utility maps to
+ * truncate -> { propName: "truncate", value: true }
+ * size-10 -> { propName: "boxSize", value: "10" }, only if the preset has a `boxSize` utility with a `10` value
+ */
+export const findPandaCompositeUtility = (candidate: TailwindCandidate, panda: PandaContext) => {
+  const utility = candidate.root ? COMPOSITE_UTILITIES[candidate.root] : undefined;
+  const config = utility && panda.config.utilities?.[utility.propName];
+  if (!utility || !config) return;
+
+  if (utility.booleanValue !== undefined) {
+    return candidate.kind === "static" ? { propName: utility.propName, value: utility.booleanValue } : undefined;
+  }
+
+  const value = candidate.value as { kind: string; value: string; fraction?: string | null } | null | undefined;
+  if (candidate.kind !== "functional" || !value || candidate.modifier) return;
+
+  // line-clamp-3 -> 3, line-clamp-none -> "none"
+  const toValue = (raw: string) => (utility.numeric && /^\d+$/.test(raw) ? Number(raw) : raw);
+
+  // size-[20px] -> { boxSize: "20px" }
+  if (value.kind === "arbitrary") return { propName: utility.propName, value: toValue(value.value) };
+
+  // Only use the values the Panda utility knows about, e.g. `lineClamp` accepts any value but `inset` uses spacing tokens
+  const propValues = panda.utility["getPropertyValues"](config) as Record<string, unknown> | undefined;
+  const key = value.fraction ?? value.value;
+  if (propValues && Object.keys(propValues).length && propValues[key] === undefined) return;
+
+  return { propName: utility.propName, value: toValue(key) };
+};
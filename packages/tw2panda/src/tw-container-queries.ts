@@ -0,0 +1,40 @@
+/**
+ * Tailwind container query variants to Panda container query conditions
+ *
+ * `@md:` -> `@/md`, `@md/sidebar:` -> `@sidebar/md` (when the Panda theme has the same `containerSizes`)
+ * otherwise the raw at-rule is used, e.g. `@max-lg:` -> `@container (width < 32rem)`
+ */
+
+import { supportsContainerQueryConditions, type PandaContext } from "./panda-context";
+import type { TailwindContext } from "./tw-types";
+
+interface PandaContainerTheme {
+  containerSizes?: Record<string, string>;
+  containerNames?: string[];
+}
+
+/** Tailwind container query variant roots that map to a `min-width` query */
+const MIN_WIDTH_ROOTS = ["@", "@min"];
+
+/**
+ * Get the Panda container query condition of a Tailwind container variant, if the Panda theme has a matching size
+ * Sizes are compared with the Tailwind `--container-*` theme so that overridden or custom sizes aren't mixed up
+ */
+export const getTwContainerCondition = (modifier: string, tailwind: TailwindContext, panda: PandaContext) => {
+  if (!modifier.startsWith("@") || !supportsContainerQueryConditions(panda)) return;
+
+  const variant = tailwind.parseVariant(modifier);
+  if (variant?.kind !== "functional" || !variant.root || !MIN_WIDTH_ROOTS.includes(variant.root)) return;
+
+  const value = variant.value as { kind: string; value: string } | null | undefined;
+  if (value?.kind !== "named") return;
+
+  const theme = panda.config.theme as PandaContainerTheme | undefined;
+  const size = tailwind.theme.namespace("--container").get(value.value);
+  if (!size || theme?.containerSizes?.[value.value] !== size) return;
+
+  const containerName = (variant.modifier as { value?: string } | null | undefined)?.value;
+  if (containerName && !theme.containerNames?.includes(containerName)) return;
+
+  return `@${containerName ?? ""}/${value.value}`;
+};
@@ -1,109 +1,299 @@
-import { __unstable__loadDesignSystem, compile } from "tailwindcss";
-import { readFileSync } from "fs";
-import { dirname, join } from "pathe";
+import { __unstable__loadDesignSystem, compile, type Config } from "tailwindcss";
+import { readFileSync, statSync } from "fs";
+import postcss from "postcss";
+import { dirname, resolve } from "pathe";
 import type { TailwindContext } from "./tw-types";
-import { getTailwindDir } from "./resolve-utils";
+import { resolveModuleFrom, resolveStylesheet } from "./resolve-utils";
+import { bundle } from "./bundle";
+import { findRuleProps } from "./postcss-find-rule-props";
+import type { ParseTwClassNameOptions } from "./tw-parser";
+import { TW_CANDIDATE_RULE_LIST, TW_MODIFIERS_LIST } from "./tw-default-constants";
+import { extractTwCustomUtilities, registerTwCustomUtilities } from "./tw-custom-utilities";
+import { extractTwCustomVariants, registerTwCustomVariants } from "./tw-custom-variants";
+import { extractTwColorVariables, registerTwColorVariables } from "./tw-semantic-colors";
+import { toHash } from "@pandacss/shared";
 
-// Cache for the design system
-let cachedDesignSystem: TailwindContext | null = null;
-let cachedCss: string | null = null;
-
-// Load a stylesheet from the tailwindcss package or filesystem
+/**
+ * Load a stylesheet referenced by an `@import`, relative to the importing file (`base`)
+ * Handles relative paths and packages from node_modules (including `tailwindcss` itself)
+ */
 async function loadStylesheet(id: string, base: string): Promise<{ path: string; content: string; base: string }> {
-  const twDir = getTailwindDir();
-
-  // Handle tailwindcss imports
-  if (id === "tailwindcss" || id === "tailwindcss/index.css") {
-    const path = join(twDir, "index.css");
-    const content = readFileSync(path, "utf-8");
-    return { path, content, base: twDir };
+  const path = resolveStylesheet(id, base);
+  if (!path) {
+    throw new Error(`Cannot load stylesheet: ${id} from ${base}`);
   }
 
-  if (id === "tailwindcss/preflight" || id === "tailwindcss/preflight.css") {
-    const path = join(twDir, "preflight.css");
-    const content = readFileSync(path, "utf-8");
-    return { path, content, base: twDir };
-  }
+  const content = readFileSync(path, "utf-8");
+  return { path, content, base: dirname(path) };
+}
 
-  if (id === "tailwindcss/theme" || id === "tailwindcss/theme.css") {
-    const path = join(twDir, "theme.css");
-    const content = readFileSync(path, "utf-8");
-    return { path, content, base: twDir };
-  }
+/** Virtual `@config` id used to pass an in-memory JS config object to the v4 compat layer */
+const INLINE_CONFIG_ID = "tw2panda:inline-config";
 
-  if (id === "tailwindcss/utilities" || id === "tailwindcss/utilities.css") {
-    const path = join(twDir, "utilities.css");
-    const content = readFileSync(path, "utf-8");
-    return { path, content, base: twDir };
-  }
+type LoadModule = NonNullable<NonNullable<Parameters<typeof compile>[1]>["loadModule"]>;
+type LoadModuleResourceHint = Parameters<LoadModule>[2];
+/** A JS config or plugin module */
+type TailwindModule = Awaited<ReturnType<LoadModule>>["module"];
 
-  // For other imports, try to resolve relative to base
-  try {
-    const fullPath = join(base, id);
-    const content = readFileSync(fullPath, "utf-8");
-    return { path: fullPath, content, base: dirname(fullPath) };
-  } catch {
-    throw new Error(`Cannot load stylesheet: ${id} from ${base}`);
+/**
+ * Load a module referenced by a `@config` (v3 JS config compat layer) or `@plugin` directive
+ * Plugins are resolved from the project's node_modules or a local path
+ * Modules are bundled so that TS/ESM files & their own imports work too
+ */
+async function loadModule(id: string, base: string, resourceHint: LoadModuleResourceHint) {
+  const path = resolveModuleFrom(id, base);
+  if (!path) {
+    throw new Error(`Cannot load ${resourceHint}: ${id} from ${base}`);
   }
+
+  const { config: module, dependencies } = await bundle<TailwindModule>(path, dirname(path));
+  // The bundled files are relative to the module directory
+  const files = [path, ...dependencies.map((dependency) => resolve(dirname(path), dependency))];
+  return { path, base: dirname(path), module, files };
 }
 
-/**
- * Creates a Tailwind context from CSS content.
- * In v4, Tailwind is CSS-first. Pass CSS with @import "tailwindcss" to load the framework.
- * For JS configs, use @config directive: @config "./tailwind.config.js";
- */
-export const createTailwindContext = async (
-  cssOrConfig?: string | Record<string, unknown>,
-): Promise<{ context: TailwindContext }> => {
-  // Default CSS that loads the full framework
-  const DEFAULT_TAILWIND_CSS = `@import "tailwindcss";`;
+export interface TailwindContextOptions {
+  /** Directory used to resolve `@import`s from, defaults to the current working directory */
+  base?: string | undefined;
+  /** Cache to read from / store the design system in, the design system is loaded on every call without it */
+  cache?: TailwindContextCache | undefined;
+}
 
-  let css: string;
+// Default CSS that loads the full framework
+const DEFAULT_TAILWIND_CSS = `@import "tailwindcss";`;
 
+/** Identify JS config objects, which can't be compared by content, so that their design systems can be cached */
+const inlineConfigIds = new WeakMap<object, number>();
+let inlineConfigCount = 0;
+
+const getInlineConfigId = (config: object) => {
+  let id = inlineConfigIds.get(config);
+  if (id === undefined) {
+    id = ++inlineConfigCount;
+    inlineConfigIds.set(config, id);
+  }
+
+  return id;
+};
+
+/** Normalize the `createTailwindContext` input into the CSS to load (+ the JS config object to expose to `@config`) */
+const resolveTailwindInput = (cssOrConfig?: string | Record<string, unknown>) => {
   if (typeof cssOrConfig === "string") {
     // If it looks like CSS (contains @import or @tailwind or @theme), use it directly
     if (cssOrConfig.includes("@import") || cssOrConfig.includes("@tailwind") || cssOrConfig.includes("@theme")) {
-      css = cssOrConfig;
-    } else {
-      // Assume it's old v3 config content - use default CSS
-      css = DEFAULT_TAILWIND_CSS;
+      return { css: cssOrConfig };
     }
-  } else if (cssOrConfig && typeof cssOrConfig === "object") {
-    // JS config object - use default CSS (v4 doesn't support inline JS config)
-    css = DEFAULT_TAILWIND_CSS;
-  } else {
-    css = DEFAULT_TAILWIND_CSS;
+
+    // Assume it's old v3 config content - use default CSS
+    return { css: DEFAULT_TAILWIND_CSS };
   }
 
-  // Return cached result if CSS hasn't changed
-  if (cachedDesignSystem && cachedCss === css) {
-    return { context: cachedDesignSystem };
+  if (cssOrConfig && typeof cssOrConfig === "object") {
+    // JS config object - load it through the v4 compat layer, same as a `@config` directive
+    // the comment identifies the object, so that its design system is cached apart from the other config objects
+    const css = `${DEFAULT_TAILWIND_CSS}\n@config "${INLINE_CONFIG_ID}";\n/* ${getInlineConfigId(cssOrConfig)} */`;
+    return { css, inlineConfig: cssOrConfig as Config };
   }
 
+  return { css: DEFAULT_TAILWIND_CSS };
+};
+
+/** Identify a design system by the directory its imports are resolved from & a hash of its CSS */
+const getCacheKey = (css: string, base: string) => `${base}:${toHash(css)}`;
+
+/** The files a design system was loaded from: `@import`ed stylesheets, `@plugin` & `@config` modules */
+const dependenciesByContext = new WeakMap<TailwindContext, string[]>();
+
+/**
+ * Get the files (absolute paths) a design system was loaded from, besides its entry CSS
+ * e.g. `@import "./theme.css"`, `@plugin "./plugin.js"` or `@config "./tailwind.config.js"` and its own imports
+ */
+export const getTailwindContextDependencies = (context: TailwindContext) => {
+  return dependenciesByContext.get(context) ?? [];
+};
+
+/** Identify the version of a file by its modification time & size, `undefined` when it doesn't exist */
+const getFileStamp = (path: string) => {
+  const stats = statSync(path, { throwIfNoEntry: false });
+  return stats ? `${stats.mtimeMs}:${stats.size}` : undefined;
+};
+
+type CacheEntry = { css: string; context: TailwindContext; stamps: Map<string, string | undefined> };
+
+/** Whether one of the files a cached design system was loaded from changed since */
+const isStale = (entry: CacheEntry) => {
+  return Array.from(entry.stamps).some(([path, stamp]) => getFileStamp(path) !== stamp);
+};
+
+const DEFAULT_CACHE_SIZE = 10;
+
+/**
+ * A bounded (least recently used) cache of Tailwind design systems, keyed by CSS content hash & base directory,
+ * so that several contexts (e.g. apps with different themes in a monorepo) can be used side by side.
+ * An entry is invalidated when one of the files it was loaded from (see `getTailwindContextDependencies`) changes.
+ */
+export const createTailwindContextCache = (options: { maxSize?: number } = {}) => {
+  const { maxSize = DEFAULT_CACHE_SIZE } = options;
+  const entries = new Map<string, CacheEntry>();
+  const pending = new Map<string, Promise<TailwindContext>>();
+
+  const get = (css: string, base: string) => {
+    const key = getCacheKey(css, base);
+    const entry = entries.get(key);
+    // guard against hash collisions
+    if (!entry || entry.css !== css) return;
+    if (isStale(entry)) {
+      entries.delete(key);
+      return;
+    }
+
+    // move to the end, most recently used
+    entries.delete(key);
+    entries.set(key, entry);
+    return entry.context;
+  };
+
+  const set = (css: string, base: string, context: TailwindContext) => {
+    const key = getCacheKey(css, base);
+    entries.delete(key);
+    const stamps = new Map(getTailwindContextDependencies(context).map((path) => [path, getFileStamp(path)]));
+    entries.set(key, { css, context, stamps });
+
+    while (entries.size > maxSize) {
+      const oldestKey = entries.keys().next().value as string;
+      entries.delete(oldestKey);
+    }
+  };
+
+  /** Return the cached design system for that CSS/base or load it, concurrent loads of the same CSS are deduped */
+  const load = (css: string, base: string, loader: () => Promise<TailwindContext>) => {
+    const cached = get(css, base);
+    if (cached) return Promise.resolve(cached);
+
+    const key = getCacheKey(css, base);
+    const inFlight = pending.get(key);
+    if (inFlight) return inFlight;
+
+    const promise = loader()
+      .then((context) => {
+        set(css, base, context);
+        return context;
+      })
+      .finally(() => pending.delete(key));
+
+    pending.set(key, promise);
+    return promise;
+  };
+
+  return {
+    get,
+    set,
+    load,
+    has: (css: string, base: string) => Boolean(get(css, base)),
+    delete: (css: string, base: string) => entries.delete(getCacheKey(css, base)),
+    clear: () => {
+      entries.clear();
+      pending.clear();
+    },
+    get size() {
+      return entries.size;
+    },
+  };
+};
+
+export type TailwindContextCache = ReturnType<typeof createTailwindContextCache>;
+
+/** The v3 `prefix` of the JS config a design system was loaded with, e.g. `tw-` */
+const legacyPrefixByContext = new WeakMap<TailwindContext, string>();
+
+/** `prefix: "tw-"` (v3) -> "tw-", v4 prefixes are written as a variant (`tw:`) instead */
+const getLegacyPrefix = (module: unknown) => {
+  const prefix = (module as { prefix?: unknown } | null | undefined)?.prefix;
+  return typeof prefix === "string" && prefix.endsWith("-") ? prefix : undefined;
+};
+
+const loadDesignSystem = async (css: string, base: string, inlineConfig: Config | undefined) => {
+  // Keep track of every stylesheet in the @import chain to find their `@utility`, `@custom-variant` & `:root` variables
+  const stylesheets = [css];
+  const dependencies = new Set<string>();
+  // Read before Tailwind fixes the config prefix up to its v4 form, e.g. `tw-` -> `tw`
+  let legacyPrefix: string | undefined;
   const designSystem = await __unstable__loadDesignSystem(css, {
-    loadStylesheet,
+    base,
+    loadStylesheet: async (id, stylesheetBase) => {
+      const stylesheet = await loadStylesheet(id, stylesheetBase);
+      stylesheets.push(stylesheet.content);
+      dependencies.add(stylesheet.path);
+      return stylesheet;
+    },
+    loadModule: async (id, moduleBase, resourceHint) => {
+      if (inlineConfig && id === INLINE_CONFIG_ID) {
+        legacyPrefix ??= getLegacyPrefix(inlineConfig);
+        return { path: id, base: moduleBase, module: inlineConfig };
+      }
+
+      const { files, ...module } = await loadModule(id, moduleBase, resourceHint);
+      files.forEach((file) => dependencies.add(file));
+      if (resourceHint === "config") legacyPrefix ??= getLegacyPrefix(module.module);
+      return module;
+    },
   });
 
   // Cast to our TailwindContext type - the core interface is compatible
-  cachedDesignSystem = designSystem as unknown as TailwindContext;
-  cachedCss = css;
+  const context = designSystem as unknown as TailwindContext;
+  registerTwCustomUtilities(context, stylesheets.flatMap(extractTwCustomUtilities));
+  registerTwCustomVariants(context, stylesheets.flatMap(extractTwCustomVariants));
+  registerTwColorVariables(context, stylesheets.flatMap(extractTwColorVariables));
+  dependenciesByContext.set(context, Array.from(dependencies));
+  if (legacyPrefix) legacyPrefixByContext.set(context, legacyPrefix);
+
+  return context;
+};
+
+/**
+ * Creates a Tailwind context from CSS content.
+ * In v4, Tailwind is CSS-first. Pass CSS with @import "tailwindcss" to load the framework.
+ * For JS config files, use @config directive: @config "./tailwind.config.js";
+ * A JS config object is loaded through the same compat layer (theme, screens, darkMode, plugins...).
+ *
+ * `base` is the directory relative `@import`s (and node_modules lookups) are resolved from,
+ * usually the directory of the CSS entry file. Defaults to the current working directory.
+ *
+ * Pass a `cache` (see `createTailwindContextCache`) to reuse design systems by CSS content & base
+ * (until one of the files they were loaded from changes), JS config objects are cached by identity.
+ */
+export const createTailwindContext = async (
+  cssOrConfig?: string | Record<string, unknown>,
+  options: TailwindContextOptions = {},
+): Promise<{ context: TailwindContext }> => {
+  const { base = "", cache } = options;
+  const { css, inlineConfig } = resolveTailwindInput(cssOrConfig);
 
-  return { context: cachedDesignSystem };
+  const loader = () => loadDesignSystem(css, base, inlineConfig);
+  const context = await (cache ? cache.load(css, base, loader) : loader());
+  return { context };
 };
 
 /**
- * Synchronous version that returns a cached design system or throws if not initialized.
- * Call createTailwindContext first to initialize.
+ * Synchronous version that returns the design system cached for that same input, or throws if not loaded yet.
+ * Call createTailwindContext (with the same arguments & cache) first to initialize.
  */
-export const createTailwindContextSync = (): { context: TailwindContext } => {
-  if (!cachedDesignSystem) {
+export const createTailwindContextSync = (
+  cssOrConfig: string | Record<string, unknown> | undefined,
+  options: TailwindContextOptions & { cache: TailwindContextCache },
+): { context: TailwindContext } => {
+  const { base = "", cache } = options;
+  const { css } = resolveTailwindInput(cssOrConfig);
+
+  const context = cache.get(css, base);
+  if (!context) {
     throw new Error("Tailwind context not initialized. Call createTailwindContext() first.");
   }
-  return { context: cachedDesignSystem };
+  return { context };
 };
 
 /**
- * Initialize the default Tailwind context. Call this at app startup.
+ * Load the default Tailwind context (the whole framework with its default theme).
  */
 export const initTailwindContext = async (): Promise<TailwindContext> => {
   const { context } = await createTailwindContext();
@@ -133,18 +323,110 @@ export const getClassList = (context: TailwindContext) => {
 };
 
 /**
- * Get all available variants.
+ * Get the configured class prefix, e.g. `tw` for `@import "tailwindcss" prefix(tw)`
  */
-export const getVariants = (context: TailwindContext) => {
-  return context.getVariants();
+export const getTailwindPrefix = (context: TailwindContext) => {
+  return context.theme?.prefix ?? null;
+};
+
+/**
+ * Split a class on its variant separators, ignoring the ones in arbitrary values
+ * [&:hover]:tw-flex -> ["[&:hover]", "tw-flex"]
+ */
+const splitVariants = (className: string) => {
+  const parts = [] as string[];
+  let depth = 0;
+  let start = 0;
+
+  for (let index = 0; index < className.length; index++) {
+    const char = className[index];
+    if (char === "[" || char === "(") depth++;
+    if (char === "]" || char === ")") depth--;
+    if (char === ":" && depth === 0) {
+      parts.push(className.slice(start, index));
+      start = index + 1;
+    }
+  }
+
+  parts.push(className.slice(start));
+  return parts;
 };
 
 /**
- * Clear the cached design system. Useful for testing.
+ * Rewrite a class using the v3 config prefix (e.g. `prefix: "tw-"`) to the v4 form the design system parses
+ * tw-flex -> tw:flex, hover:!tw-bg-red-500 -> tw:hover:!bg-red-500, -tw-mt-4 or tw--mt-4 -> tw:-mt-4
+ * Other classes (or without a v3 prefix configured) are returned as-is
  */
-export const clearTailwindContextCache = () => {
-  cachedDesignSystem = null;
-  cachedCss = null;
+export const toTwV4ClassName = (className: string, context: TailwindContext) => {
+  const legacyPrefix = legacyPrefixByContext.get(context);
+  const prefix = getTailwindPrefix(context);
+  if (!legacyPrefix || !prefix) return className;
+
+  const variants = splitVariants(className);
+  const utility = variants.pop() ?? "";
+  // The important & negative markers come before the prefix, e.g. `!tw-flex` or `-tw-mt-4`
+  const [, markers = "", unprefixed] = utility.match(new RegExp(`^(!?-?)${legacyPrefix}(.+)$`)) ?? [];
+  if (!unprefixed) return className;
+
+  return [prefix, ...variants, markers + unprefixed].join(":");
+};
+
+const parserOptionsByContext = new WeakMap<TailwindContext, ParseTwClassNameOptions>();
+
+/**
+ * Get the `parseTwClassName` options matching a design system: its prefix, and the utilities & variants
+ * it actually registers (including the ones coming from `@plugin`, `@utility` or `@custom-variant`)
+ */
+export const getTwParserOptions = (context: TailwindContext): ParseTwClassNameOptions => {
+  const cached = parserOptionsByContext.get(context);
+  if (cached) return cached;
+
+  const utilities = context.utilities.keys("static").concat(context.utilities.keys("functional"));
+  const variants = context.getVariants().map((variant) => variant.name);
+
+  const options = {
+    prefix: getTailwindPrefix(context),
+    allowedCandidates: Array.from(new Set([...TW_CANDIDATE_RULE_LIST, ...utilities])),
+    allowedModifiers: Array.from(new Set([...TW_MODIFIERS_LIST, ...variants])),
+  };
+  parserOptionsByContext.set(context, options);
+
+  return options;
+};
+
+const variantWrappersByContext = new WeakMap<TailwindContext, Map<string, string[]>>();
+
+/**
+ * Get the selectors/at-rules (outermost first) a variant wraps utilities in
+ * data-[state=open] -> ['&[data-state="open"]']
+ * hover -> ["&:hover", "@media (hover: hover)"]
+ */
+export const getVariantWrappers = (variant: string, context: TailwindContext): string[] => {
+  let wrappersByVariant = variantWrappersByContext.get(context);
+  if (!wrappersByVariant) {
+    wrappersByVariant = new Map();
+    variantWrappersByContext.set(context, wrappersByVariant);
+  }
+
+  const cached = wrappersByVariant.get(variant);
+  if (cached) return cached;
+
+  const prefix = getTailwindPrefix(context);
+  const css = context.candidatesToCss([`${prefix ? prefix + ":" : ""}${variant}:flex`])[0];
+  const rule = css ? postcss.parse(css).nodes.find((node) => node.type === "rule") : undefined;
+  const [ruleProp] = rule?.type === "rule" ? findRuleProps(rule) : [];
+
+  const wrappers = ruleProp?.conditions ?? [];
+  wrappersByVariant.set(variant, wrappers);
+
+  return wrappers;
+};
+
+/**
+ * Get all available variants.
+ */
+export const getVariants = (context: TailwindContext) => {
+  return context.getVariants();
 };
 
 // Re-export the compile function for advanced usage
@@ -0,0 +1,167 @@
+/**
+ * Tailwind `@utility` definitions to Panda custom utilities
+ *
+ * `@utility scrollbar-hidden { ... }` -> `scrollbarHidden: { values: { type: "boolean" }, transform }`
+ * `@utility tab-* { tab-size: --value(integer) }` -> `tab: { transform(value) { return { tabSize: value } } }`
+ */
+
+import postcss from "postcss";
+import postcssJs from "postcss-js";
+import { maybePretty } from "./maybe-pretty";
+import type { TailwindContext } from "./tw-types";
+import type { StyleObject } from "./types";
+
+export interface TwCustomUtility {
+  /** The Tailwind utility root, e.g. `scrollbar-hidden` or `tab` (for `tab-*`) */
+  name: string;
+  kind: "static" | "functional";
+  /** The Panda utility name, e.g. `scrollbarHidden` */
+  propName: string;
+  /** The styles generated by the utility, `--value(...)` replaced by `VALUE_PLACEHOLDER` */
+  styles: StyleObject;
+  /** Theme namespaces referenced by `--value(--tab-size-*)`, e.g. `--tab-size` */
+  themeNamespaces: string[];
+}
+
+const VALUE_PLACEHOLDER = "__VALUE__";
+
+const kebabToCamel = (str: string) => str.replace(/(-\w)/g, (group) => (group[1] ?? "").toUpperCase());
+
+const valueFnRegex = /--value\(([^)]*)\)/g;
+
+/**
+ * Extract every `@utility` block from some Tailwind CSS
+ * Declarations using `--modifier(...)` are skipped since Panda utilities don't have modifiers
+ */
+export const extractTwCustomUtilities = (css: string): TwCustomUtility[] => {
+  if (!css.includes("@utility")) return [];
+
+  const utilities = new Map<string, TwCustomUtility>();
+  const root = postcss.parse(css);
+
+  root.walkAtRules("utility", (atRule) => {
+    const params = atRule.params.trim();
+    const kind = params.endsWith("-*") ? "functional" : "static";
+    const name = kind === "functional" ? params.slice(0, -2) : params;
+    const themeNamespaces = new Set<string>();
+
+    const body = postcss.root({ nodes: atRule.clone().nodes ?? [] });
+    body.walkDecls((decl) => {
+      if (decl.value.includes("--modifier(")) {
+        decl.remove();
+        return;
+      }
+
+      decl.value = decl.value.replace(valueFnRegex, (_match, args: string) => {
+        args.split(",").forEach((arg) => {
+          const themeKey = arg.trim().match(/^(--[\w-]+)-\*$/);
+          if (themeKey?.[1]) themeNamespaces.add(themeKey[1]);
+        });
+        return VALUE_PLACEHOLDER;
+      });
+    });
+
+    const existing = utilities.get(name);
+    const styles = postcssJs.objectify(body) as StyleObject;
+
+    utilities.set(name, {
+      name,
+      kind: existing?.kind === "functional" ? "functional" : kind,
+      propName: kebabToCamel(name),
+      styles: { ...existing?.styles, ...styles },
+      themeNamespaces: [...(existing?.themeNamespaces ?? []), ...themeNamespaces],
+    });
+  });
+
+  return Array.from(utilities.values());
+};
+
+const utilitiesByContext = new WeakMap<TailwindContext, TwCustomUtility[]>();
+
+/** Remember the `@utility` definitions found in the stylesheets a design system was loaded from */
+export const registerTwCustomUtilities = (context: TailwindContext, utilities: TwCustomUtility[]) => {
+  utilitiesByContext.set(context, utilities);
+};
+
+/** Get the `@utility` definitions of a design system */
+export const getTwCustomUtilities = (context: TailwindContext) => {
+  return utilitiesByContext.get(context) ?? [];
+};
+
+/**
+ * Find the `@utility` a class name comes from, and the value to pass to the matching Panda utility
+ * scrollbar-hidden -> { utility, value: true }
+ * tab-4 -> { utility, value: "4" }
+ */
+export const findTwCustomUtility = (className: string, tailwind: TailwindContext) => {
+  const utilities = getTwCustomUtilities(tailwind);
+  if (!utilities.length) return;
+
+  for (const candidate of tailwind.parseCandidate(className)) {
+    const utility = utilities.find((utility) => utility.name === candidate.root);
+    if (!utility) continue;
+
+    if (candidate.kind === "static") {
+      return { utility, value: true as const };
+    }
+
+    const value = (candidate.value as { value?: string } | null | undefined)?.value;
+    if (candidate.kind === "functional" && value) {
+      return { utility, value };
+    }
+  }
+
+  return;
+};
+
+/** Serialize styles as JS source, with `VALUE_PLACEHOLDER` replaced by the `value` transform argument */
+const stylesToSource = (styles: StyleObject) =>
+  JSON.stringify(styles).replace(/"((?:[^"\\]|\\.)*)"/g, (match, content: string) => {
+    if (!content.includes(VALUE_PLACEHOLDER)) return match;
+    if (content === VALUE_PLACEHOLDER) return "value";
+    return "`" + content.split(VALUE_PLACEHOLDER).join("${value}") + "`";
+  });
+
+/**
+ * Generate the Panda `utilities` config matching the `@utility` definitions of a design system
+ * Functional utilities reading theme values (`--value(--tab-size-*)`) get those values as `values`
+ */
+export function generateUtilitiesConfig(utilities: TwCustomUtility[], tailwind: TailwindContext): string {
+  const entries = utilities.map((utility) => {
+    const lines = [`  ${JSON.stringify(utility.propName)}: {`, `    className: ${JSON.stringify(utility.name)},`];
+
+    if (utility.kind === "static") {
+      lines.push(
+        `    values: { type: "boolean" },`,
+        `    transform(value) {`,
+        `      if (!value) return {};`,
+        `      return ${stylesToSource(utility.styles)};`,
+        `    },`,
+      );
+    } else {
+      const values: Record<string, string> = {};
+      utility.themeNamespaces.forEach((namespace) => {
+        tailwind.theme.namespace(namespace).forEach((value, key) => {
+          if (key !== null) values[key] = value;
+        });
+      });
+
+      if (Object.keys(values).length) {
+        lines.push(`    values: ${JSON.stringify(values)},`);
+      }
+      lines.push(`    transform(value) {`, `      return ${stylesToSource(utility.styles)};`, `    },`);
+    }
+
+    lines.push(`  },`);
+    return lines.join("\n");
+  });
+
+  return maybePretty(`/**
+ * Panda utilities converted from Tailwind \`@utility\` definitions
+ * Generated by tw2panda, add them to the \`utilities\` key of your panda.config
+ */
+export const utilities = {
+${entries.join("\n")}
+};
+`);
+}
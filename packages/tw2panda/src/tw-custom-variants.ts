@@ -0,0 +1,92 @@
+/**
+ * Tailwind `@custom-variant` (or legacy top-level `@variant`) definitions to Panda conditions
+ *
+ * `@custom-variant hocus (&:hover, &:focus);` -> `hocus: "&:hover, &:focus"`, used as `_hocus`
+ * `@custom-variant pointer-coarse { @media (pointer: coarse) { @slot; } }` -> `pointerCoarse: "@media (pointer: coarse)"`
+ */
+
+import postcss, { type AtRule } from "postcss";
+import { maybePretty } from "./maybe-pretty";
+import type { TailwindContext } from "./tw-types";
+
+export interface TwCustomVariant {
+  /** The Tailwind variant name, e.g. `pointer-coarse` */
+  name: string;
+  /** The Panda condition name (without the `_` prefix), e.g. `pointerCoarse` */
+  conditionName: string;
+  /** The Panda condition value, e.g. `&:hover, &:focus` or `@media (pointer: coarse)` */
+  condition: string;
+}
+
+const kebabToCamel = (str: string) => str.replace(/(-\w)/g, (group) => (group[1] ?? "").toUpperCase());
+
+/**
+ * Get the condition of a block variant when it wraps `@slot` in a single selector or at-rule
+ * Nested wrappers (e.g. a selector inside a `@media`) can't be expressed as a single Panda condition
+ */
+const getBlockCondition = (atRule: AtRule) => {
+  const nodes = atRule.nodes?.filter((node) => node.type !== "comment") ?? [];
+  const wrapper = nodes[0];
+  if (nodes.length !== 1 || !wrapper) return;
+
+  const hasSlot =
+    wrapper.type !== "decl" && wrapper.nodes?.some((node) => node.type === "atrule" && node.name === "slot");
+  if (!hasSlot) return;
+
+  if (wrapper.type === "rule") return wrapper.selector;
+  if (wrapper.type === "atrule") return `@${wrapper.name} ${wrapper.params}`;
+
+  return;
+};
+
+/**
+ * Extract every custom variant declared in some Tailwind CSS
+ * Variants that can't be turned into a single Panda condition are skipped
+ */
+export const extractTwCustomVariants = (css: string): TwCustomVariant[] => {
+  if (!css.includes("@custom-variant") && !css.includes("@variant")) return [];
+
+  const variants = new Map<string, TwCustomVariant>();
+  const root = postcss.parse(css);
+
+  root.each((node) => {
+    if (node.type !== "atrule" || (node.name !== "custom-variant" && node.name !== "variant")) return;
+
+    // @custom-variant hocus (&:hover, &:focus);
+    const shorthand = node.params.match(/^([\w-]+)\s*\(([\s\S]+)\)$/);
+    const name = shorthand?.[1] ?? node.params.trim();
+    const condition = shorthand?.[2]?.trim() ?? getBlockCondition(node);
+    if (!name || !condition || (!condition.includes("&") && !condition.startsWith("@"))) return;
+
+    variants.set(name, { name, conditionName: kebabToCamel(name), condition });
+  });
+
+  return Array.from(variants.values());
+};
+
+const variantsByContext = new WeakMap<TailwindContext, TwCustomVariant[]>();
+
+/** Remember the custom variants found in the stylesheets a design system was loaded from */
+export const registerTwCustomVariants = (context: TailwindContext, variants: TwCustomVariant[]) => {
+  variantsByContext.set(context, variants);
+};
+
+/** Get the custom variants of a design system */
+export const getTwCustomVariants = (context: TailwindContext) => {
+  return variantsByContext.get(context) ?? [];
+};
+
+/**
+ * Generate the Panda `conditions` config matching the custom variants of a design system
+ * (and the group/peer conditions collected with `collectTwGroupConditions`)
+ */
+export function generateConditionsConfig(variants: TwCustomVariant[]): string {
+  const conditions = Object.fromEntries(variants.map((variant) => [variant.conditionName, variant.condition]));
+
+  return maybePretty(`/**
+ * Panda conditions converted from Tailwind \`@custom-variant\` definitions and group/peer variants
+ * Generated by tw2panda, add them to the \`conditions\` key of your panda.config
+ */
+export const conditions = ${JSON.stringify(conditions, null, 2)};
+`);
+}
@@ -0,0 +1,117 @@
+/**
+ * Tailwind `dark` variant to the Panda condition matching the dark mode strategy of the project
+ *
+ * `@media (prefers-color-scheme: dark)` (Tailwind's default) -> `_osDark`
+ * `@custom-variant dark (&:where(.dark, .dark *))` -> `_dark`, the class strategy of Panda's preset
+ * `@custom-variant dark (&:where([data-theme=dark], [data-theme=dark] *))` -> `_twDark`, a generated condition
+ *   (not `dark`, which would shadow the `_dark` condition of Panda's preset)
+ * `.dark { --primary: ... }` CSS variables -> `_dark`, from the selector they're defined under
+ */
+
+import type { PandaContext } from "./panda-context";
+import { getVariantWrappers } from "./tw-context";
+import type { TwCustomVariant } from "./tw-custom-variants";
+import type { TailwindContext } from "./tw-types";
+
+export interface TwDarkMode {
+  /** The Panda conditions (outermost first) `dark:` maps to, e.g. `["_osDark"]` */
+  conditions: string[];
+  /** The condition to add to the Panda config when Panda has none matching the `dark` variant */
+  variant?: TwCustomVariant | undefined;
+}
+
+/** The condition generated for the `dark` variant, distinct from the `dark` condition of Panda's preset */
+const DARK_CONDITION_NAME = "twDark";
+
+const createDarkVariant = (condition: string): TwCustomVariant => ({
+  name: "dark",
+  conditionName: DARK_CONDITION_NAME,
+  condition,
+});
+
+/**
+ * Split a selector list on its top-level commas
+ */
+const splitSelectorList = (selector: string) => {
+  const parts = [] as string[];
+  let depth = 0;
+  let start = 0;
+
+  for (let index = 0; index < selector.length; index++) {
+    const char = selector[index];
+    if (char === "(" || char === "[") depth++;
+    if (char === ")" || char === "]") depth--;
+    if (char === "," && depth === 0) {
+      parts.push(selector.slice(start, index));
+      start = index + 1;
+    }
+  }
+
+  parts.push(selector.slice(start));
+  return parts.map((part) => part.trim());
+};
+
+/**
+ * Get the selectors a condition is made of, so that equivalent conditions can be compared
+ * &:where(.dark, .dark *) -> ["&.dark", ".dark &"]
+ * " &.dark, .dark &" -> ["&.dark", ".dark &"]
+ * @media (prefers-color-scheme: dark) -> ["@media (prefers-color-scheme: dark)"]
+ */
+const getConditionSelectors = (condition: string) => {
+  const trimmed = condition.trim().replace(/"/g, "");
+  if (trimmed.startsWith("@")) return [trimmed.replace(/\s+/g, " ")];
+
+  const where = trimmed.match(/^&:(?:where|is)\((.+)\)$/)?.[1];
+  const selectors = where
+    ? splitSelectorList(where).map((selector) =>
+        selector.endsWith(" *") ? `${selector.slice(0, -2)} &` : `&${selector}`,
+      )
+    : splitSelectorList(trimmed);
+
+  return selectors.map((selector) => selector.replace(/\s+/g, " ")).sort();
+};
+
+/**
+ * Find the Panda condition equivalent to a selector or at-rule of the `dark` variant
+ */
+const findPandaCondition = (wrapper: string, panda: PandaContext) => {
+  const selectors = getConditionSelectors(wrapper).join(", ");
+
+  return Object.entries(panda.conditions.values).find(
+    ([name, { raw }]) => name.startsWith("_") && getConditionSelectors(raw).join(", ") === selectors,
+  )?.[0];
+};
+
+/**
+ * Get the Panda conditions the `dark` variant of a design system maps to, from the selectors Tailwind generates for it
+ * A single selector/at-rule without a Panda equivalent becomes a generated `twDark` condition, used as `_twDark`
+ */
+export const getTwDarkMode = (tailwind: TailwindContext, panda: PandaContext): TwDarkMode => {
+  const wrappers = getVariantWrappers("dark", tailwind);
+  if (!wrappers.length) return { conditions: ["_dark"] };
+
+  const conditions = wrappers.map((wrapper) => findPandaCondition(wrapper, panda));
+  const [wrapper] = wrappers;
+  if (wrappers.length === 1 && wrapper && !conditions[0]) {
+    return { conditions: [`_${DARK_CONDITION_NAME}`], variant: createDarkVariant(wrapper) };
+  }
+
+  // @media (prefers-color-scheme: dark) { &:not(.light *) { ... } } -> ["_osDark", "&:not(.light *)"]
+  return { conditions: conditions.map((condition, index) => condition ?? wrappers[index] ?? "") };
+};
+
+/**
+ * Get the Panda condition of the values defined under a dark mode selector, e.g. the `:root`/`.dark` CSS variables
+ * .dark -> `_dark`, the class strategy of Panda's preset
+ * [data-theme="dark"] -> `_twDark`, a generated condition
+ */
+export const getTwDarkSelectorMode = (selector: string, panda: PandaContext): TwDarkMode => {
+  // .dark { --primary: ... } applies to the element & its descendants
+  const selectors = splitSelectorList(selector).flatMap((part) => [part, `${part} *`]);
+  const wrapper = `&:where(${selectors.join(", ")})`;
+
+  const condition = findPandaCondition(wrapper, panda);
+  if (condition) return { conditions: [condition] };
+
+  return { conditions: [`_${DARK_CONDITION_NAME}`], variant: createDarkVariant(wrapper) };
+};
@@ -0,0 +1,76 @@
+/**
+ * Tailwind gradient utilities to the Panda gradient utilities, decided for the whole class list
+ *
+ * `bg-linear-to-r from-indigo-500 to-pink-500` -> `backgroundGradient: "to-r"`, `gradientFrom: "indigo.500"`, ...
+ * gradients Panda can't express (arbitrary angles, `bg-radial`, `bg-conic`, stop positions) keep an explicit `backgroundImage`
+ */
+
+import type { PandaContext } from "./panda-context";
+import type { TailwindCandidate, TailwindContext } from "./tw-types";
+
+export interface TwGradientUtility {
+  /** The Panda utility name, e.g. `gradientFrom` */
+  propName: string;
+  /** The Panda utility value, e.g. `red.500` */
+  value: string;
+}
+
+/** Tailwind utility root (v4 `bg-linear-*` or v3 `bg-gradient-*`) -> Panda utility */
+const GRADIENT_UTILITIES: Record<string, string> = {
+  "bg-linear": "backgroundGradient",
+  "bg-gradient": "backgroundGradient",
+  from: "gradientFrom",
+  via: "gradientVia",
+  to: "gradientTo",
+};
+
+/** Gradient utilities without a Panda equivalent */
+const GRADIENT_ROOTS = [...Object.keys(GRADIENT_UTILITIES), "bg-radial", "bg-conic"];
+
+/** v3 `bg-gradient-to-r` is a static utility in v4 */
+const isLegacyGradient = (candidate: TailwindCandidate) =>
+  candidate.kind === "static" && !!candidate.root?.startsWith("bg-gradient-");
+
+const getGradientRoot = (candidate: TailwindCandidate) =>
+  isLegacyGradient(candidate) ? "bg-gradient" : candidate.root ?? "";
+
+/**
+ * Find the Panda gradient utility of a Tailwind gradient class, using the values the Panda utility knows about
+ * bg-linear-to-r -> { propName: "backgroundGradient", value: "to-r" }
+ * from-red-500 -> { propName: "gradientFrom", value: "red.500" }
+ * bg-linear-45, from-10% or from-red-500/50 -> undefined
+ */
+const findPandaGradientUtility = (candidate: TailwindCandidate, panda: PandaContext) => {
+  const propName = GRADIENT_UTILITIES[getGradientRoot(candidate)];
+  const config = propName && panda.config.utilities?.[propName];
+  const value = isLegacyGradient(candidate)
+    ? { kind: "named", value: candidate.root!.slice("bg-gradient-".length) }
+    : (candidate.value as { kind: string; value: string } | null | undefined);
+  if (!propName || !config || candidate.modifier || value?.kind !== "named") return;
+
+  const propValues = (panda.utility["getPropertyValues"](config) ?? {}) as Record<string, unknown>;
+  // red-500 -> red.500
+  const key = [value.value, value.value.replace(/-(?=[^-]*$)/, ".")].find((key) => propValues[key] !== undefined);
+
+  return key ? ({ propName, value: key } as TwGradientUtility) : undefined;
+};
+
+/**
+ * Get the Panda gradient utility of each gradient class of a class list
+ * When a single one has no Panda equivalent, none is returned: the whole gradient is kept as a `backgroundImage`
+ */
+export const getTwGradientUtilities = (classList: Set<string>, tailwind: TailwindContext, panda: PandaContext) => {
+  const utilities = new Map<string, TwGradientUtility>();
+
+  for (const className of classList) {
+    const [candidate] = tailwind.parseCandidate(className);
+    if (!candidate || !GRADIENT_ROOTS.includes(getGradientRoot(candidate))) continue;
+
+    const utility = findPandaGradientUtility(candidate, panda);
+    if (!utility) return new Map<string, TwGradientUtility>();
+
+    utilities.set(className, utility);
+  }
+
+  return utilities;
+};
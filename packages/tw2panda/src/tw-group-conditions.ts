@@ -0,0 +1,111 @@
+/**
+ * Tailwind group/peer variants to Panda conditions
+ *
+ * `group-hover/item:` -> `_groupItemHover` with `groupItemHover: ".group-item:is(:hover, [data-hover]) &"`
+ * `group-data-[state=open]:` -> `_groupDataStateOpen` with `groupDataStateOpen: "&:is(:where(.group)[data-state=\"open\"] *)"`
+ * and the `group/item` marker class becomes the `group-item` class hook used by those conditions
+ */
+
+import type { PandaContext } from "./panda-context";
+import { getVariantWrappers } from "./tw-context";
+import type { TwCustomVariant } from "./tw-custom-variants";
+import type { TailwindContext } from "./tw-types";
+
+const kebabToCamel = (str: string) => str.replace(/(-\w)/g, (group) => (group[1] ?? "").toUpperCase());
+
+/** `group` / `group/{name}` / `peer` / `peer/{name}` */
+const MARKER_CLASS_PATTERN = /^(group|peer)(?:\/([\w-]+))?$/;
+
+/** A (possibly prefixed & named) marker class in a Tailwind selector, e.g. `.tw\:group\/item` */
+const MARKER_SELECTOR_PATTERN = /\.(?:[\w-]+\\:)?(group|peer)(?:\\\/([\w-]+))?(?![\w-])/g;
+
+/**
+ * Check if a class is a Tailwind marker class (group, peer, etc.)
+ * These don't generate CSS but must be kept for variant selectors to work
+ * With a configured prefix, only the prefixed form is a marker (e.g. `tw:group`)
+ */
+export const isTailwindMarkerClass = (className: string, prefix: string | null) => {
+  if (prefix) {
+    return className.startsWith(`${prefix}:`) && MARKER_CLASS_PATTERN.test(className.slice(prefix.length + 1));
+  }
+
+  return MARKER_CLASS_PATTERN.test(className);
+};
+
+/**
+ * Get the class hook a marker class is replaced with, since Panda conditions can't use Tailwind's `/` syntax
+ * group -> group, group/item -> group-item, tw:peer/email -> peer-email
+ */
+export const getMarkerClassHook = (className: string, prefix: string | null) => {
+  const unprefixed = prefix && className.startsWith(`${prefix}:`) ? className.slice(prefix.length + 1) : className;
+  const match = unprefixed.match(MARKER_CLASS_PATTERN);
+  if (!match?.[1]) return className;
+
+  return match[2] ? `${match[1]}-${match[2]}` : match[1];
+};
+
+/**
+ * Get the Panda condition matching a group/peer variant Panda doesn't have a built-in condition for
+ * Named groups reuse the built-in condition when there's one, e.g. `_groupHover` for `group-hover/item`
+ */
+export const getTwGroupCondition = (
+  modifier: string,
+  tailwind: TailwindContext,
+  panda: PandaContext,
+): TwCustomVariant | undefined => {
+  const variant = tailwind.parseVariant(modifier);
+  if (variant?.kind !== "compound" || (variant.root !== "group" && variant.root !== "peer") || !variant.variant) return;
+
+  const root = variant.root;
+  const groupName = (variant.modifier as { value?: string } | null | undefined)?.value;
+  const innerVariant = tailwind.printVariant(variant.variant);
+  const hook = groupName ? `${root}-${groupName}` : root;
+
+  const conditionName = kebabToCamel(
+    [hook, innerVariant]
+      .join("-")
+      .replace(/[^\w]+/g, "-")
+      .replace(/^-|-$/g, ""),
+  );
+
+  // Reuse the built-in condition selector with the hook class, e.g. `.group:is(:hover, [data-hover]) &`
+  const builtin = panda.conditions.values["_" + kebabToCamel(`${root}-${innerVariant}`)];
+  if (builtin?.raw.startsWith(`.${root}`)) {
+    if (!groupName) return;
+    return { name: modifier, conditionName, condition: `.${hook}${builtin.raw.slice(root.length + 1)}` };
+  }
+
+  const [selector] = getVariantWrappers(modifier, tailwind);
+  if (!selector) return;
+
+  const condition = selector.replace(MARKER_SELECTOR_PATTERN, (_match, marker: string, name?: string) =>
+    name ? `.${marker}-${name}` : `.${marker}`,
+  );
+
+  return { name: modifier, conditionName, condition };
+};
+
+/**
+ * Collect the group/peer conditions needed by a list of classes, to be added to the Panda `conditions` config
+ */
+export const collectTwGroupConditions = (
+  classList: Iterable<string>,
+  tailwind: TailwindContext,
+  panda: PandaContext,
+) => {
+  const conditions = new Map<string, TwCustomVariant>();
+
+  for (const className of classList) {
+    const [candidate] = tailwind.parseCandidate(className);
+
+    candidate?.variants.forEach((variant) => {
+      const modifier = tailwind.printVariant(variant);
+      if (conditions.has(modifier)) return;
+
+      const condition = getTwGroupCondition(modifier, tailwind, panda);
+      if (condition) conditions.set(modifier, condition);
+    });
+  }
+
+  return Array.from(conditions.values());
+};
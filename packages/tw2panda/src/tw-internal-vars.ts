@@ -0,0 +1,328 @@
+/**
+ * Tailwind internal `--tw-*` variables, composed across a class list into concrete CSS values
+ *
+ * `translate-x-2 translate-y-4` -> `translate: calc(var(--spacing) * 2) calc(var(--spacing) * 4)`
+ * `ring-2 ring-red-500` -> `box-shadow: 0 0 0 calc(2px + 0px) var(--color-red-500)`
+ * `blur-sm grayscale` -> `filter: blur(var(--blur-sm)) grayscale(100%)`
+ */
+
+import postcss from "postcss";
+import { findRuleProps } from "./postcss-find-rule-props";
+import { getTailwindPrefix } from "./tw-context";
+import type { TailwindContext } from "./tw-types";
+
+export interface TwComposedProperty {
+  /** The CSS property, e.g. `box-shadow` */
+  propName: string;
+  /** The value with every internal variable replaced, e.g. `0 0 0 calc(2px + 0px) var(--color-red-500)` */
+  value: string;
+  /** The selectors/at-rules nested in the utility, e.g. `:where(& > :not(:last-child))` for `space-x-4` */
+  conditions: string[];
+}
+
+interface TwVarsDeclaration {
+  propName: string;
+  value: string;
+  conditions: string[];
+  /** The class variants followed by the nested conditions, e.g. `["hover", "@supports (...)"]` */
+  path: string[];
+}
+
+interface TwClassVars {
+  className: string;
+  /** The internal variables set by the class, e.g. `--tw-translate-x: calc(var(--spacing) * 2)` */
+  variables: TwVarsDeclaration[];
+  /** The declarations using internal variables, e.g. `translate: var(--tw-translate-x) var(--tw-translate-y)` */
+  declarations: TwVarsDeclaration[];
+}
+
+/** The layer Tailwind uses as `initial-value` of its shadow variables */
+const EMPTY_SHADOW = "0 0 #0000";
+
+const isPrefixPath = (path: string[], of: string[]) =>
+  path.length <= of.length && path.every((item, index) => item === of[index]);
+
+/**
+ * Split a CSS value on a separator, ignoring the ones nested in parentheses
+ * `0 0 #0000, 0 1px rgb(0 0 0 / 0.1)` -> ["0 0 #0000", " 0 1px rgb(0 0 0 / 0.1)"]
+ */
+const splitTopLevel = (value: string, separator: string) => {
+  const parts = [] as string[];
+  let depth = 0;
+  let start = 0;
+
+  for (let index = 0; index < value.length; index++) {
+    const char = value[index];
+    if (char === "(") depth++;
+    if (char === ")") depth--;
+    if (char === separator && depth === 0) {
+      parts.push(value.slice(start, index));
+      start = index + 1;
+    }
+  }
+
+  parts.push(value.slice(start));
+  return parts;
+};
+
+/**
+ * Find the index of the parenthesis closing the one at `start`
+ */
+const findClosingParen = (value: string, start: number) => {
+  let depth = 0;
+  for (let index = start; index < value.length; index++) {
+    if (value[index] === "(") depth++;
+    if (value[index] === ")" && --depth === 0) return index;
+  }
+
+  return -1;
+};
+
+/**
+ * Replace the `var(--name, fallback)` references the replacer returns a value for
+ */
+const replaceVars = (value: string, replacer: (name: string, fallback: string | undefined) => string | undefined) => {
+  let result = "";
+  let index = 0;
+
+  while (index < value.length) {
+    const start = value.indexOf("var(", index);
+    const end = start === -1 ? -1 : findClosingParen(value, start + 3);
+    if (start === -1 || end === -1) break;
+
+    const [name = "", ...rest] = splitTopLevel(value.slice(start + 4, end), ",");
+    const fallback = rest.length ? rest.join(",").trim() : undefined;
+    const replaced = replacer(name.trim(), fallback);
+
+    result += value.slice(index, start) + (replaced ?? value.slice(start, end + 1));
+    index = end + 1;
+  }
+
+  return result + value.slice(index);
+};
+
+/**
+ * Collect the internal variables set & used by each class, along with the ones registered with `@property`
+ */
+const collectTwClassVars = (classList: Set<string>, tailwind: TailwindContext) => {
+  const classes = [] as TwClassVars[];
+  const registeredVars = new Set<string>();
+  const initialValues = new Map<string, string>();
+
+  // Follow the CSS order, e.g. `space-x-reverse space-x-4` -> `space-x-4` first, `space-x-reverse` overriding it
+  const orderedClassList = tailwind
+    .getClassOrder(Array.from(classList))
+    .sort(([, a], [, b]) => (a === b ? 0 : a === null ? -1 : b === null ? 1 : a < b ? -1 : 1))
+    .map(([className]) => className);
+
+  orderedClassList.forEach((className) => {
+    const [candidate] = tailwind.parseCandidate(className);
+    if (!candidate) return;
+
+    const variants = candidate.variants.map((variant) => tailwind.printVariant(variant)).reverse();
+    const css = tailwind.candidatesToCss([tailwind.printCandidate({ ...candidate, variants: [] })])[0];
+    if (!css) return;
+
+    const classVars: TwClassVars = { className, variables: [], declarations: [] };
+
+    postcss.parse(css).each((node) => {
+      // Variables registered without an `initial-value` are invalid until set, using their fallback
+      if (node.type === "atrule" && node.name === "property") {
+        registeredVars.add(node.params);
+        node.walkDecls("initial-value", (decl) => {
+          initialValues.set(node.params, decl.value);
+        });
+        return;
+      }
+
+      if (node.type !== "rule") return;
+
+      findRuleProps(node, [], { variables: true }).forEach(({ propName, value, conditions }) => {
+        const declaration = { propName, value, conditions, path: [...variants, ...conditions] };
+        if (propName.startsWith("--")) {
+          classVars.variables.push(declaration);
+        } else if (value.includes("var(--")) {
+          classVars.declarations.push(declaration);
+        }
+      });
+    });
+
+    classes.push(classVars);
+  });
+
+  return { classes, registeredVars, initialValues };
+};
+
+/**
+ * Compose the declarations using Tailwind internal variables (`--tw-translate-x`, `--tw-ring-shadow`, `--tw-blur`...)
+ * with the variables set by the whole class list, as the browser would for an element having all these classes
+ *
+ * Each class gets the composed declarations it takes part in, at its own variants:
+ * `ring-2 hover:ring-red-500` -> `ring-2` gets the `currentcolor` ring, `hover:ring-red-500` the red one
+ */
+export const composeTwInternalVars = (classList: Set<string>, tailwind: TailwindContext) => {
+  const { classes, registeredVars, initialValues } = collectTwClassVars(classList, tailwind);
+  const composed = new Map<string, TwComposedProperty[]>();
+
+  const variables = classes.flatMap((classVars) => classVars.variables);
+  const prefix = getTailwindPrefix(tailwind);
+  const setVariables = new Set(variables.map((variable) => variable.propName));
+  // --tw-leading -> internal, --tw-color-red-500 -> theme variable (with `prefix(tw)`)
+  const isInternalVar = (name: string) => {
+    if (setVariables.has(name) || registeredVars.has(name)) return true;
+    if (!name.startsWith("--tw-")) return false;
+
+    const themeVarName = prefix && name.startsWith(`--${prefix}-`) ? "--" + name.slice(prefix.length + 3) : name;
+    return tailwind.resolveThemeValue?.(themeVarName) === undefined;
+  };
+
+  // The variables applying at a path are the ones set at that path or any of its ancestors, the innermost winning
+  const getVariablesAt = (path: string[]) => {
+    const values = new Map<string, string>();
+    variables
+      .filter((variable) => isPrefixPath(variable.path, path))
+      .sort((a, b) => a.path.length - b.path.length)
+      .forEach((variable) => values.set(variable.propName, variable.value));
+    return values;
+  };
+
+  const compose = (declaration: TwVarsDeclaration, path: string[]) => {
+    const values = getVariablesAt(path);
+    const used = new Set<string>();
+
+    const substitute = (value: string, depth: number): string =>
+      replaceVars(value, (name, fallback) => {
+        if (!isInternalVar(name) || depth > 10) return;
+        used.add(name);
+
+        const resolved = values.get(name) ?? initialValues.get(name) ?? fallback ?? "";
+        return substitute(resolved, depth + 1);
+      });
+
+    return { value: substitute(declaration.value, 0), used };
+  };
+
+  const declarations = classes.flatMap((classVars) => classVars.declarations);
+
+  classes.forEach((classVars) => {
+    const properties = [] as TwComposedProperty[];
+    const addProperty = (propName: string, value: string, conditions: string[]) => {
+      const key = [propName, ...conditions].join(" ");
+      if (properties.some((property) => [property.propName, ...property.conditions].join(" ") === key)) return;
+      properties.push({ propName, value, conditions });
+    };
+
+    classVars.declarations.forEach((declaration) => {
+      const { value, used } = compose(declaration, declaration.path);
+      if (used.size) addProperty(declaration.propName, value, declaration.conditions);
+    });
+
+    // ring-red-500 -> the box-shadow of a `ring-2` class applying at the same (or an ancestor) path
+    classVars.variables.forEach((variable) => {
+      declarations
+        .filter((declaration) => isPrefixPath(declaration.path, variable.path))
+        .forEach((declaration) => {
+          const { value, used } = compose(declaration, variable.path);
+          if (used.has(variable.propName)) addProperty(declaration.propName, value, variable.conditions);
+        });
+    });
+
+    if (properties.length) composed.set(classVars.className, properties);
+  });
+
+  return composed;
+};
+
+/**
+ * Format a number the way Tailwind does, without floating point noise
+ */
+const formatNumber = (value: number, unit: string) => `${Number(value.toFixed(6)) || 0}${unit}`;
+
+const cssNumberRegex = /^(-?(?:\d+\.?\d*|\.\d+))([a-z%]*)$/i;
+
+/**
+ * Evaluate a calc() expression made of numbers with compatible units
+ * 0.25rem * 2 -> "0.5rem", 1/2 * 100% -> "50%", 2px + 0px -> "2px", 1rem * var(--x) -> undefined
+ */
+const evaluateCalc = (expression: string) => {
+  const evaluateProduct = (term: string) => {
+    const [first = "", ...rest] = term.trim().split(/\s*([*/])\s*/);
+    const match = first.match(cssNumberRegex);
+    if (!match?.[1]) return;
+
+    let value = Number(match[1]);
+    let unit = match[2] ?? "";
+
+    for (let index = 0; index < rest.length; index += 2) {
+      const operand = rest[index + 1]?.match(cssNumberRegex);
+      if (!operand?.[1]) return;
+
+      const operandUnit = operand[2] ?? "";
+      if (rest[index] === "*") {
+        if (unit && operandUnit) return;
+        value *= Number(operand[1]);
+        unit = unit || operandUnit;
+      } else {
+        if (operandUnit || Number(operand[1]) === 0) return;
+        value /= Number(operand[1]);
+      }
+    }
+
+    return { value, unit };
+  };
+
+  const terms = expression.trim().split(/\s+([+-])\s+/);
+  const first = evaluateProduct(terms[0] ?? "");
+  if (!first) return;
+
+  let { value, unit } = first;
+  for (let index = 1; index < terms.length; index += 2) {
+    const term = evaluateProduct(terms[index + 1] ?? "");
+    if (!term) return;
+    if (term.unit !== unit && term.value !== 0 && value !== 0) return;
+
+    unit = value === 0 ? term.unit : unit;
+    value = terms[index] === "+" ? value + term.value : value - term.value;
+  }
+
+  return formatNumber(value, unit);
+};
+
+/**
+ * Simplify a composed value, once its theme variables are resolved
+ * calc(0.25rem * 2) -> 0.5rem
+ * color-mix(in oklab, #000 100%, transparent) -> #000
+ * 0 0 #0000, 0 0 0 2px #fff, 0 0 #0000 -> 0 0 0 2px #fff
+ */
+export const simplifyComposedValue = (value: string) => {
+  let simplified = value;
+  let previous;
+
+  // Evaluate the innermost calc() first, e.g. calc(calc(0.25rem * 4) * 0) -> calc(1rem * 0) -> 0rem
+  while (previous !== simplified) {
+    previous = simplified;
+    simplified = simplified.replace(
+      /calc\(([^()]*)\)/g,
+      (match, expression: string) => evaluateCalc(expression) ?? match,
+    );
+  }
+
+  // Fully opaque shadow colors, e.g. `shadow-black/20` with the default `--tw-shadow-alpha`
+  let colorMixStart = simplified.lastIndexOf("color-mix(");
+  while (colorMixStart !== -1) {
+    const end = findClosingParen(simplified, colorMixStart + 9);
+    const [space, color, mixed] = splitTopLevel(simplified.slice(colorMixStart + 10, end), ",").map((arg) =>
+      arg.trim(),
+    );
+    if (end !== -1 && space && mixed === "transparent" && color?.endsWith(" 100%")) {
+      simplified = simplified.slice(0, colorMixStart) + color.slice(0, -5) + simplified.slice(end + 1);
+    }
+
+    colorMixStart = colorMixStart > 0 ? simplified.lastIndexOf("color-mix(", colorMixStart - 1) : -1;
+  }
+
+  const layers = splitTopLevel(simplified.replace(/\s+/g, " "), ",").map((layer) => layer.trim());
+  const visibleLayers = layers.filter((layer) => layer !== EMPTY_SHADOW);
+
+  return (layers.length > 1 && visibleLayers.length ? visibleLayers : layers).join(", ");
+};
@@ -0,0 +1,148 @@
+/**
+ * Tailwind `@keyframes` (defined in `@theme`) to Panda keyframes
+ *
+ * `animate-spin` -> `animation: "spin 1s linear infinite"`, reusing the `spin` keyframes of Panda's preset
+ * `animate-wiggle` -> `animation: "wiggle 1s ease-in-out infinite"`, with a generated `wiggle` keyframes
+ * keyframes Panda defines differently are generated under a `tw-` prefixed name, e.g. `tw-bounce`
+ */
+
+import { maybePretty } from "./maybe-pretty";
+import type { PandaContext } from "./panda-context";
+import type { TailwindContext, TailwindDeclaration, TailwindRule } from "./tw-types";
+
+/** Panda keyframes, e.g. `{ "0%, 100%": { opacity: "1" }, "50%": { opacity: "0.5" } }` */
+export type PandaKeyframes = Record<string, Record<string, string>>;
+
+const kebabToCamel = (str: string) => str.replace(/(-\w)/g, (group) => (group[1] ?? "").toUpperCase());
+
+/** Keyframes names in an animation value, e.g. `spin` in `spin 1s linear infinite` */
+const animationNameRegex = /[\w-]+/g;
+
+const keyframesByContext = new WeakMap<TailwindContext, Map<string, PandaKeyframes>>();
+
+/**
+ * Get the keyframes defined in the Tailwind theme, keyed by name
+ */
+export const getTwKeyframes = (tailwind: TailwindContext) => {
+  const cached = keyframesByContext.get(tailwind);
+  if (cached) return cached;
+
+  const keyframes = new Map<string, PandaKeyframes>();
+
+  tailwind.theme.getKeyframes().forEach((atRule) => {
+    const steps: PandaKeyframes = {};
+    atRule.nodes
+      .filter((node): node is TailwindRule => node.kind === "rule")
+      .forEach((rule) => {
+        const styles = (steps[rule.selector] ??= {});
+        rule.nodes
+          .filter((node): node is TailwindDeclaration => node.kind === "declaration")
+          .forEach((decl) => {
+            if (decl.value !== undefined) styles[kebabToCamel(decl.property)] = decl.value;
+          });
+      });
+
+    keyframes.set(atRule.params, steps);
+  });
+
+  keyframesByContext.set(tailwind, keyframes);
+  return keyframes;
+};
+
+/**
+ * Normalize keyframes so that equivalent definitions can be compared
+ * `{ "50%": { opacity: "0.5" } }` & `{ "50%": { opacity: ".5" } }` -> `[["50%", [["opacity", ".5"]]]]`
+ */
+const normalizeKeyframes = (keyframes: PandaKeyframes) => {
+  const normalize = (value: string) => value.replace(/\s+/g, "").replace(/(^|[^\d.])0\./g, "$1.");
+  const normalizeStep = (step: string) =>
+    normalize(step)
+      .replace(/^from$/, "0%")
+      .replace(/^to$/, "100%");
+
+  return JSON.stringify(
+    Object.entries(keyframes)
+      .map(([step, styles]) => [
+        normalizeStep(step),
+        Object.entries(styles)
+          .map(([prop, value]) => [prop, normalize(String(value))])
+          .sort(),
+      ])
+      .sort(),
+  );
+};
+
+/**
+ * Get the name a Tailwind keyframes has in the Panda config
+ * spin -> "spin" (same as Panda's preset), wiggle -> "wiggle" (generated), bounce -> "tw-bounce" (Panda's differs)
+ */
+const getPandaKeyframesName = (name: string, keyframes: PandaKeyframes, panda: PandaContext) => {
+  const pandaKeyframes = (panda.config.theme?.keyframes as Record<string, PandaKeyframes> | undefined)?.[name];
+  if (!pandaKeyframes || normalizeKeyframes(pandaKeyframes) === normalizeKeyframes(keyframes)) return name;
+
+  return `tw-${name}`;
+};
+
+/**
+ * Rewrite the keyframes names of an animation value to the ones of the Panda config
+ * "bounce 1s infinite" -> "tw-bounce 1s infinite", when Panda's preset defines another `bounce` keyframes
+ */
+export const toPandaAnimation = (animation: string, tailwind: TailwindContext, panda: PandaContext) => {
+  const keyframes = getTwKeyframes(tailwind);
+
+  return animation.replace(animationNameRegex, (word) => {
+    const steps = keyframes.get(word);
+    return steps ? getPandaKeyframesName(word, steps, panda) : word;
+  });
+};
+
+/**
+ * Get the animation value of an `animate-*` class
+ * animate-spin -> "spin 1s linear infinite", animate-[wiggle_1s_ease-in-out_infinite] -> "wiggle 1s ease-in-out infinite"
+ */
+const getTwAnimation = (className: string, tailwind: TailwindContext) => {
+  const [candidate] = tailwind.parseCandidate(className);
+  const value = candidate?.value as { kind: string; value: string } | null | undefined;
+  if (candidate?.kind !== "functional" || candidate.root !== "animate" || !value) return;
+
+  return value.kind === "arbitrary" ? value.value : tailwind.theme.namespace("--animate").get(value.value);
+};
+
+/**
+ * Collect the keyframes used by the `animate-*` classes of a class list that Panda's preset doesn't ship,
+ * keyed by their name in the Panda config
+ */
+export const collectTwKeyframes = (classList: string[], tailwind: TailwindContext, panda: PandaContext) => {
+  const keyframes = getTwKeyframes(tailwind);
+  const pandaKeyframes = (panda.config.theme?.keyframes ?? {}) as Record<string, unknown>;
+  const missing: Record<string, PandaKeyframes> = {};
+
+  new Set(classList).forEach((className) => {
+    const animation = getTwAnimation(className, tailwind);
+
+    animation?.match(animationNameRegex)?.forEach((word) => {
+      const steps = keyframes.get(word);
+      if (!steps) return;
+
+      // Reuse the keyframes Panda's preset already ships
+      const name = getPandaKeyframesName(word, steps, panda);
+      if (name === word && pandaKeyframes[name]) return;
+
+      missing[name] = steps;
+    });
+  });
+
+  return missing;
+};
+
+/**
+ * Generate the Panda `keyframes` config code
+ */
+export function generateKeyframesConfig(keyframes: Record<string, PandaKeyframes>): string {
+  return maybePretty(`/**
+ * Panda keyframes converted from the Tailwind \`@keyframes\` used by \`animate-*\` classes
+ * Generated by tw2panda, add them to the \`theme.extend.keyframes\` key of your panda.config
+ */
+export const keyframes = ${JSON.stringify(keyframes, null, 2)};
+`);
+}
@@ -1,11 +1,15 @@
 import { TW_CANDIDATE_RULE_LIST, TW_MODIFIERS_LIST } from "./tw-default-constants";
 import { TailwindClass } from "./types";
 
-export const parseTwClassName = (
-  className: string,
-  options?: { allowedModifiers: string[]; allowedCandidates: string[] },
-) => {
-  const { allowedModifiers = TW_MODIFIERS_LIST, allowedCandidates = TW_CANDIDATE_RULE_LIST } = options ?? {};
+export type ParseTwClassNameOptions = {
+  allowedModifiers?: string[] | undefined;
+  allowedCandidates?: string[] | undefined;
+  /** The configured Tailwind prefix, e.g. `tw` for `@import "tailwindcss" prefix(tw)` */
+  prefix?: string | null | undefined;
+};
+
+export const parseTwClassName = (className: string, options?: ParseTwClassNameOptions) => {
+  const { allowedModifiers = TW_MODIFIERS_LIST, allowedCandidates = TW_CANDIDATE_RULE_LIST, prefix } = options ?? {};
 
   const modifiers: string[] = [];
   let index = 0;
@@ -18,6 +22,7 @@ export const parseTwClassName = (
   let valueStart;
   let variantStart = 0;
   let isImportant = false;
+  let isNegative = false;
 
   // Check for v4 syntax: important modifier at the end (e.g., "flex!")
   let classNameToParse = className;
@@ -26,27 +31,48 @@ export const parseTwClassName = (
     classNameToParse = className.slice(0, -1);
   }
 
+  // Prefixed utilities always start with the prefix, as if it were a variant (e.g. "tw:hover:bg-red-500")
+  // when a prefix is configured, classes without it are not Tailwind utilities
+  if (prefix) {
+    const prefixStart = classNameToParse.startsWith("!") ? 1 : 0;
+    if (!classNameToParse.startsWith(`${prefix}:`, prefixStart)) return;
+
+    classNameToParse = classNameToParse.slice(0, prefixStart) + classNameToParse.slice(prefixStart + prefix.length + 1);
+  }
+
   while (index < classNameToParse.length) {
     char = classNameToParse[index];
 
-    // v3 syntax: important modifier at the beginning (e.g., "!flex")
-    if (char === "!" && index === 0) {
+    // v3 syntax: important modifier at the beginning (e.g., "!flex" or "hover:!flex")
+    if (char === "!" && !current && arbitraryStart === undefined) {
       current = "";
       index++;
       isImportant = true;
       continue;
     }
 
+    // negative value at the start of the utility, e.g. "-mt-4" or "hover:-top-px"
+    if (char === "-" && !current && !utility && arbitraryStart === undefined && classNameToParse[index + 1] !== "-") {
+      isNegative = true;
+      index++;
+      continue;
+    }
+
     // start of arbitrary value|modifier
     if (char === "[") {
       if (index === 0) {
         variantStart = index + 1;
       }
 
-      if (className[index - 1] === "-") {
+      if (classNameToParse[index - 1] === "-") {
         utility = current.slice(0, -1);
       }
 
+      // "@[400px]:grid" => container query with an arbitrary size
+      if (current === "@") {
+        utility = current;
+      }
+
       arbitraryStart = index;
       current = "";
       index++;
@@ -68,9 +94,17 @@ export const parseTwClassName = (
         break;
       }
 
+      // arbitrary value followed by a modifier, e.g. "bg-[#ff0000]/50" => value = '[#ff0000]/50', utility = 'bg'
+      if (utility && classNameToParse[index + 1] === "/") {
+        kind = "arbitrary-value";
+        current = classNameToParse.slice(valueStart ?? arbitraryStart);
+        value = current;
+        break;
+      }
+
       // meaning this is an arbitrary modifier
-      if (utility && className[index] === "]") {
-        modifiers.push(`${utility}-[${current}]`);
+      if (utility && classNameToParse[index] === "]") {
+        modifiers.push(utility === "@" ? `@[${current}]` : `${utility}-[${current}]`);
       } else {
         modifiers.push(current);
       }
@@ -86,7 +120,7 @@ export const parseTwClassName = (
     if (char === ":") {
       if (!current) {
         // "group-[:nth-of-type(3)_&]"
-        if (className[index - 1] === "[") {
+        if (classNameToParse[index - 1] === "[") {
           // put back the `:` from :nth-of-type(3)
           current = ":";
         }
@@ -103,7 +137,8 @@ export const parseTwClassName = (
         continue;
       }
 
-      let isAllowed = allowedModifiers.includes(current);
+      // container queries, e.g. "@md", "@max-lg" or "@lg/sidebar"
+      let isAllowed = allowedModifiers.includes(current) || current.startsWith("@");
       if (!isAllowed && current.includes("/")) {
         isAllowed = allowedModifiers.includes(current.split("/")[0]!);
       }
@@ -128,8 +163,8 @@ export const parseTwClassName = (
       continue;
     }
 
-    // when utility contains a dash, e.g. "translate-x-0.5"
-    if (!utility && current && char === "-" && allowedCandidates.includes(current)) {
+    // when utility contains a dash, e.g. "translate-x-0.5" (but not inside an arbitrary property like "[mask-type:alpha]")
+    if (!utility && current && char === "-" && arbitraryStart === undefined && allowedCandidates.includes(current)) {
       utility = current;
       current = "";
       index++;
@@ -171,6 +206,11 @@ export const parseTwClassName = (
     item.value = current;
   }
 
+  // "-mt-4" -> utility = "mt", value = "-4"
+  if (isNegative && item.value) {
+    item.value = `-${item.value}`;
+  }
+
   // "!flex": important
   if (isImportant) {
     item.isImportant = true;
@@ -0,0 +1,244 @@
+/**
+ * Tailwind colors defined with CSS variables (shadcn-style) to Panda semantic tokens
+ *
+ * `:root { --primary: oklch(0.205 0 0) } .dark { --primary: oklch(0.922 0 0) }` along with
+ * `@theme inline { --color-primary: var(--primary) }` -> `primary: { value: { base: "oklch(0.205 0 0)", _dark: "oklch(0.922 0 0)" } }`
+ * `bg-primary` -> `backgroundColor: "primary"`
+ */
+
+import postcss, { type AtRule, type Rule } from "postcss";
+import { maybePretty } from "./maybe-pretty";
+import type { TailwindContext } from "./tw-types";
+
+export interface TwColorVariable {
+  /** The CSS variable name, e.g. `--primary` */
+  name: string;
+  /** The value defined under `:root`, e.g. `oklch(0.205 0 0)` */
+  base?: string | undefined;
+  /** The value defined under `.dark` (or another dark selector), e.g. `oklch(0.922 0 0)` */
+  dark?: string | undefined;
+  /** The selector the dark value is defined under, e.g. `.dark` or `[data-theme="dark"]` */
+  darkSelector?: string | undefined;
+  /** The value defined under `:root` in `@media (prefers-color-scheme: dark)`, e.g. `oklch(0.922 0 0)` */
+  osDark?: string | undefined;
+}
+
+export interface TwSemanticColor {
+  /** The Tailwind color name, e.g. `primary-foreground` */
+  name: string;
+  /** The Panda token path, e.g. `primary.foreground` */
+  path: string;
+  /** The values with the CSS variables resolved, e.g. `{ base: "oklch(0.985 0 0)", dark: "oklch(0.205 0 0)" }` */
+  value: { base: string; dark?: string | undefined; osDark?: string | undefined };
+}
+
+/** Selectors the light (default) values are defined under */
+const BASE_SELECTORS = [":root", "html", ":host", ":root, :host", "html, :host"];
+
+/** Whether an at-rule is `@media (prefers-color-scheme: dark)` */
+const isOsDarkMedia = (node: AtRule) => node.name === "media" && /prefers-color-scheme:\s*dark/.test(node.params);
+
+/**
+ * Whether a rule holds the default or the dark mode values of the CSS variables
+ * :root -> "base", .dark / [data-theme="dark"] / :root.dark -> "dark"
+ * :root in `@media (prefers-color-scheme: dark)` -> "osDark"
+ */
+const getRuleMode = (rule: Rule) => {
+  const selector = rule.selector.replace(/\s+/g, " ").trim();
+  const parent = rule.parent;
+  if (parent?.type === "atrule" && isOsDarkMedia(parent as AtRule)) {
+    return BASE_SELECTORS.includes(selector) ? "osDark" : undefined;
+  }
+
+  if (BASE_SELECTORS.includes(selector)) return "base";
+  if (/\bdark\b/.test(selector)) return "dark";
+
+  return;
+};
+
+/** Whether a node is top-level, or only nested in `@layer` / `@media (prefers-color-scheme: dark)` */
+const isTopLevel = (node: Rule | AtRule): boolean => {
+  const parent = node.parent;
+  if (parent?.type === "root") return true;
+  if (parent?.type !== "atrule") return false;
+
+  const atRule = parent as AtRule;
+  return (atRule.name === "layer" || isOsDarkMedia(atRule)) && isTopLevel(atRule);
+};
+
+/**
+ * Extract the CSS variables defined under `:root` & `.dark` in some Tailwind CSS, either top-level or in `@layer base`
+ * The `:root` ones in `@media (prefers-color-scheme: dark)` are the `osDark` values
+ */
+export const extractTwColorVariables = (css: string): TwColorVariable[] => {
+  if (!css.includes("--")) return [];
+
+  const variables = new Map<string, TwColorVariable>();
+  const root = postcss.parse(css);
+
+  root.walkRules((rule) => {
+    const mode = isTopLevel(rule) ? getRuleMode(rule) : undefined;
+    if (!mode) return;
+
+    rule.each((node) => {
+      if (node.type !== "decl" || !node.prop.startsWith("--")) return;
+
+      const variable = variables.get(node.prop) ?? { name: node.prop };
+      variable[mode] = node.value;
+      if (mode === "dark") variable.darkSelector = rule.selector.replace(/\s+/g, " ").trim();
+      variables.set(node.prop, variable);
+    });
+  });
+
+  return Array.from(variables.values());
+};
+
+const variablesByContext = new WeakMap<TailwindContext, TwColorVariable[]>();
+/** The semantic colors of a design system, keyed by the theme variable & the CSS variable they stand for */
+const semanticColorsByContext = new WeakMap<TailwindContext, Map<string, TwSemanticColor>>();
+
+/** Remember the `:root` & `.dark` CSS variables found in the stylesheets a design system was loaded from */
+export const registerTwColorVariables = (context: TailwindContext, variables: TwColorVariable[]) => {
+  variablesByContext.set(context, variables);
+  semanticColorsByContext.delete(context);
+};
+
+/** Get the `:root` & `.dark` CSS variables of a design system */
+export const getTwColorVariables = (context: TailwindContext) => {
+  return variablesByContext.get(context) ?? [];
+};
+
+/**
+ * Get the selector the dark values of a design system are defined under, e.g. `.dark`
+ */
+export const getTwColorVariablesDarkSelector = (context: TailwindContext) => {
+  return getTwColorVariables(context).find((variable) => variable.darkSelector)?.darkSelector;
+};
+
+/**
+ * Replace the `var(--name)` references of a value with the values of a mode, e.g. `hsl(var(--primary))`
+ * Variables referencing other variables (e.g. `--sidebar-ring: var(--ring)`) are resolved too
+ */
+const resolveVariables = (
+  value: string,
+  variables: Map<string, TwColorVariable>,
+  mode: "base" | "dark" | "osDark",
+  depth = 0,
+) =>
+  value.replace(/var\((--[\w-]+)\)/g, (match, name: string): string => {
+    const variable = variables.get(name);
+    const resolved = variable?.[mode] ?? variable?.base;
+    if (!resolved || depth > 10) return match;
+
+    return resolveVariables(resolved, variables, mode, depth + 1);
+  });
+
+/**
+ * Get the semantic colors of a design system, keyed by `--color-primary` & `--primary`
+ */
+const getTwSemanticColorsByVarName = (tailwind: TailwindContext) => {
+  const cached = semanticColorsByContext.get(tailwind);
+  if (cached) return cached;
+
+  const variables = new Map(getTwColorVariables(tailwind).map((variable) => [variable.name, variable]));
+  const colors = new Map<string, TwSemanticColor>();
+
+  if (variables.size) {
+    tailwind.theme.namespace("--color").forEach((themeValue, name) => {
+      if (name === null || !themeValue.includes("var(--")) return;
+
+      const base = resolveVariables(themeValue, variables, "base");
+      if (base === themeValue || base.includes("var(--")) return;
+
+      const dark = resolveVariables(themeValue, variables, "dark");
+      const osDark = resolveVariables(themeValue, variables, "osDark");
+      const color: TwSemanticColor = {
+        name,
+        path: name.replace(/-/g, "."),
+        value: { base, ...(dark !== base && { dark }), ...(osDark !== base && { osDark }) },
+      };
+
+      colors.set(`--color-${name}`, color);
+      // @theme inline { --color-primary: var(--primary) } -> utilities use `var(--primary)` directly
+      const reference = themeValue.trim().match(/^var\((--[\w-]+)\)$/)?.[1];
+      if (reference && !colors.has(reference)) colors.set(reference, color);
+    });
+  }
+
+  semanticColorsByContext.set(tailwind, colors);
+  return colors;
+};
+
+/**
+ * Get the Tailwind `--color-*` theme values that reference the `:root` & `.dark` CSS variables
+ * --color-primary-foreground: var(--primary-foreground) -> { name: "primary-foreground", path: "primary.foreground", ... }
+ */
+export const getTwSemanticColors = (tailwind: TailwindContext) => {
+  return Array.from(new Set(getTwSemanticColorsByVarName(tailwind).values()));
+};
+
+/**
+ * Find the semantic color a CSS variable stands for, either the theme one or the one it references
+ * --color-primary or --primary -> { name: "primary", path: "primary", ... }
+ */
+export const findTwSemanticColor = (varName: string, tailwind: TailwindContext) => {
+  return getTwSemanticColorsByVarName(tailwind).get(varName);
+};
+
+/**
+ * Format the Panda token reference of a semantic color, to use within a CSS value
+ * Without a fallback, since its default value would also be used in dark mode
+ * primary -> "token(colors.primary)"
+ */
+export const formatTwSemanticColorToken = (color: TwSemanticColor) => {
+  return `token(colors.${color.path})`;
+};
+
+/** A Panda semantic token value, e.g. `{ base: "oklch(1 0 0)", _dark: "oklch(0.145 0 0)" }` */
+type SemanticTokenValue = string | Record<string, string>;
+
+/** A semantic token path segment, with the token defined at that path (if any) & the nested ones */
+interface SemanticTokenNode {
+  value?: SemanticTokenValue | undefined;
+  children: Map<string, SemanticTokenNode>;
+}
+
+/**
+ * Convert a semantic token node to its Panda config
+ * `primary` with `primary.foreground` -> `{ DEFAULT: { value }, foreground: { value } }`
+ */
+const toSemanticTokensConfig = (node: SemanticTokenNode): Record<string, unknown> => {
+  const children = Object.fromEntries(
+    Array.from(node.children, ([key, child]) => [key, toSemanticTokensConfig(child)]),
+  );
+  if (node.value === undefined) return children;
+
+  return node.children.size ? { DEFAULT: { value: node.value }, ...children } : { value: node.value };
+};
+
+/**
+ * Generate the Panda `semanticTokens` config code
+ * `primary` & `primary-foreground` -> `primary: { DEFAULT: { value }, foreground: { value } }`
+ */
+export function generateSemanticTokensConfig(colors: TwSemanticColor[], darkCondition = "_dark"): string {
+  const tree: SemanticTokenNode = { children: new Map() };
+
+  colors.forEach((color) => {
+    const node = color.path.split(".").reduce((parent, part) => {
+      const child: SemanticTokenNode = parent.children.get(part) ?? { children: new Map() };
+      parent.children.set(part, child);
+      return child;
+    }, tree);
+
+    const { base, dark, osDark } = color.value;
+    node.value =
+      dark || osDark ? { base, ...(osDark && { _osDark: osDark }), ...(dark && { [darkCondition]: dark }) } : base;
+  });
+
+  return maybePretty(`/**
+ * Panda semantic tokens converted from the Tailwind colors defined with \`:root\` & \`.dark\` CSS variables
+ * Generated by tw2panda, add them to the \`theme.extend.semanticTokens\` key of your panda.config
+ */
+export const semanticTokens = ${JSON.stringify({ colors: toSemanticTokensConfig(tree) }, null, 2)};
+`);
+}
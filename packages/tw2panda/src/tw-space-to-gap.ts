@@ -0,0 +1,50 @@
+/**
+ * Tailwind `space-*` utilities to `gap`, for class lists that make the element a flex or grid container
+ *
+ * `flex space-x-4` -> `gap-x-4` -> `columnGap: "4"`, instead of margins on `:where(& > :not(:last-child))`
+ * `space-y-2 md:space-y-4` without `flex`/`grid` keep targeting the children
+ */
+
+import type { TailwindContext } from "./tw-types";
+
+/** `space-*` utility root -> `gap-*` utility root */
+const SPACE_TO_GAP: Record<string, string> = {
+  "space-x": "gap-x",
+  "space-y": "gap-y",
+};
+
+/** Display utilities making the element a flex or grid container */
+const CONTAINER_CLASSES = ["flex", "inline-flex", "grid", "inline-grid"];
+
+/**
+ * Get the `gap-*` class replacing each `space-*` class of a flex or grid container class list
+ * `flex space-x-4 md:space-x-[10px]` -> Map { "space-x-4" => "gap-x-4", "md:space-x-[10px]" => "md:gap-x-[10px]" }
+ * Negative spaces have no `gap` equivalent, and a `space-*-reverse` keeps the margins of its axis
+ */
+export const getTwSpaceToGapClasses = (classList: Set<string>, tailwind: TailwindContext) => {
+  const gapClasses = new Map<string, string>();
+  if (!CONTAINER_CLASSES.some((className) => classList.has(className))) return gapClasses;
+
+  const candidates = Array.from(classList).flatMap((className) =>
+    tailwind
+      .parseCandidate(className)
+      .slice(0, 1)
+      .map((candidate) => ({ className, candidate })),
+  );
+  // space-x-reverse -> "space-x"
+  const reversedRoots = new Set(
+    candidates
+      .filter(({ candidate }) => candidate.kind === "static" && candidate.root?.endsWith("-reverse"))
+      .map(({ candidate }) => candidate.root!.slice(0, -"-reverse".length)),
+  );
+
+  candidates.forEach(({ className, candidate }) => {
+    const root = candidate.kind === "functional" ? candidate.root : undefined;
+    const gapRoot = root && !reversedRoots.has(root) ? SPACE_TO_GAP[root] : undefined;
+    if (!gapRoot) return;
+
+    gapClasses.set(className, tailwind.printCandidate({ ...candidate, root: gapRoot }));
+  });
+
+  return gapClasses;
+};
@@ -0,0 +1,160 @@
+/**
+ * Tailwind font sizes (with their paired line-height, letter-spacing & font-weight) to Panda text styles
+ *
+ * `--text-sm: 0.875rem; --text-sm--line-height: calc(1.25 / 0.875);` -> `sm: { value: { fontSize, lineHeight } }`
+ * `text-sm` -> `textStyle: "sm"`, while `text-sm/6` keeps its `fontSize` & `lineHeight` override
+ * font sizes Panda defines differently are generated under a `tw-` prefixed name, e.g. `tw-sm`
+ */
+
+import { maybePretty } from "./maybe-pretty";
+import type { PandaContext } from "./panda-context";
+import type { TailwindCandidate, TailwindContext } from "./tw-types";
+
+export interface TwTextStyle {
+  /** The Tailwind font size name, e.g. `sm` */
+  name: string;
+  /** The Panda text style value, e.g. `{ fontSize: "0.875rem", lineHeight: "calc(1.25 / 0.875)" }` */
+  value: Record<string, string>;
+}
+
+/** `--text-{name}--{suffix}` theme variables -> Panda properties */
+const TEXT_STYLE_PROPERTIES: Record<string, string> = {
+  "line-height": "lineHeight",
+  "letter-spacing": "letterSpacing",
+  "font-weight": "fontWeight",
+};
+
+const textStylesByContext = new WeakMap<TailwindContext, TwTextStyle[]>();
+
+/**
+ * Get the font sizes defined in the Tailwind `--text-*` theme, along with their paired properties
+ */
+export const getTwTextStyles = (tailwind: TailwindContext) => {
+  const cached = textStylesByContext.get(tailwind);
+  if (cached) return cached;
+
+  const textStyles = new Map<string, TwTextStyle>();
+  // `--text-shadow-*` variables share the `--text` namespace
+  const textShadows = new Set(
+    Array.from(tailwind.theme.namespace("--text-shadow").keys()).map((name) => (name ? `shadow-${name}` : "shadow")),
+  );
+
+  tailwind.theme.namespace("--text").forEach((value, key) => {
+    if (key === null) return;
+
+    const [name = "", suffix] = key.split("--");
+    if (textShadows.has(name)) return;
+
+    const textStyle = textStyles.get(name) ?? { name, value: {} };
+    textStyles.set(name, textStyle);
+
+    if (suffix === undefined) {
+      textStyle.value["fontSize"] = value;
+      return;
+    }
+
+    const propName = TEXT_STYLE_PROPERTIES[suffix];
+    if (propName) textStyle.value[propName] = value;
+  });
+
+  const result = Array.from(textStyles.values()).filter((textStyle) => textStyle.value["fontSize"]);
+  textStylesByContext.set(tailwind, result);
+  return result;
+};
+
+/** `0.875rem` -> 0.875, `14px` -> 0.875 */
+const toRem = (value: string) => {
+  const [, amount = "", unit] = value.trim().match(/^(-?[\d.]+)(rem|px)$/) ?? [];
+  if (!unit) return;
+
+  return unit === "px" ? Number(amount) / 16 : Number(amount);
+};
+
+/** `1.5` -> 1.5, `calc(1.25 / 0.875)` -> 1.4285 */
+const toRatio = (value: string) => {
+  const trimmed = value.trim();
+  if (/^[\d.]+$/.test(trimmed)) return Number(trimmed);
+
+  const [, dividend, divisor] = trimmed.match(/^calc\(\s*([\d.]+)\s*\/\s*([\d.]+)\s*\)$/) ?? [];
+  return dividend && divisor ? Number(dividend) / Number(divisor) : undefined;
+};
+
+/**
+ * Normalize a text style so that equivalent definitions can be compared, with the line-height resolved from the font size
+ * `{ fontSize: "0.875rem", lineHeight: "calc(1.25 / 0.875)" }` & `{ fontSize: "0.875rem", lineHeight: "1.25rem" }`
+ * -> `[["fontSize", "0.875rem"], ["lineHeight", "1.25rem"]]`
+ */
+const normalizeTextStyle = (value: Record<string, string>) => {
+  const normalize = (raw: string) => raw.replace(/\s+/g, "").replace(/(^|[^\d.])0\./g, "$1.");
+  const round = (amount: number) => `${Math.round(amount * 10000) / 10000}rem`;
+
+  const fontSize = toRem(value["fontSize"] ?? "");
+  return JSON.stringify(
+    Object.entries(value)
+      .map(([prop, raw]) => {
+        if (prop !== "fontSize" && prop !== "lineHeight") return [prop, normalize(String(raw))];
+
+        // A unitless line-height is relative to the font size, `1.5` -> `1.5 * fontSize`
+        const ratio = prop === "lineHeight" ? toRatio(raw) : undefined;
+        const rem = ratio !== undefined && fontSize !== undefined ? ratio * fontSize : toRem(raw);
+        return [prop, rem !== undefined ? round(rem) : normalize(String(raw))];
+      })
+      .sort(),
+  );
+};
+
+/**
+ * Get the name a Tailwind font size has in the Panda config
+ * sm -> "sm" (same as Panda's preset), base -> "base" (generated), sm -> "tw-sm" (when Panda's `sm` differs)
+ */
+const getPandaTextStyleName = (textStyle: TwTextStyle, panda: PandaContext) => {
+  const pandaTextStyles = (panda.config.theme?.textStyles ?? {}) as Record<string, { value?: unknown }>;
+  const pandaTextStyle = pandaTextStyles[textStyle.name];
+  if (!pandaTextStyle) return textStyle.name;
+
+  const value = pandaTextStyle.value as Record<string, string> | undefined;
+  if (value && typeof value === "object" && normalizeTextStyle(value) === normalizeTextStyle(textStyle.value)) {
+    return textStyle.name;
+  }
+
+  return `tw-${textStyle.name}`;
+};
+
+/**
+ * Find the Panda text style of the Tailwind font size used by a `text-*` class
+ * text-sm -> "sm", or "tw-sm" when Panda's `sm` text style differs
+ * text-sm/6, text-[14px] or text-red-500 -> undefined
+ */
+export const findTwTextStyle = (candidate: TailwindCandidate, tailwind: TailwindContext, panda: PandaContext) => {
+  const value = candidate.value as { kind: string; value: string } | null | undefined;
+  if (candidate.kind !== "functional" || candidate.root !== "text" || value?.kind !== "named") return;
+  if (candidate.modifier) return;
+
+  const textStyle = getTwTextStyles(tailwind).find((textStyle) => textStyle.name === value.value);
+  return textStyle && getPandaTextStyleName(textStyle, panda);
+};
+
+/**
+ * Get the Tailwind font sizes that have no equivalent Panda text style, named as they should be added to the config
+ */
+export const getMissingTextStyles = (tailwind: TailwindContext, panda: PandaContext) => {
+  const pandaTextStyles = (panda.config.theme?.textStyles ?? {}) as Record<string, unknown>;
+
+  return getTwTextStyles(tailwind)
+    .map((textStyle) => ({ ...textStyle, name: getPandaTextStyleName(textStyle, panda) }))
+    .filter((textStyle) => !pandaTextStyles[textStyle.name]);
+};
+
+/**
+ * Generate the Panda `textStyles` config code
+ */
+export function generateTextStylesConfig(textStyles: TwTextStyle[]): string {
+  const config = Object.fromEntries(textStyles.map((textStyle) => [textStyle.name, { value: textStyle.value }]));
+
+  return maybePretty(`/**
+ * Panda text styles converted from the Tailwind \`--text-*\` font sizes
+ * Generated by tw2panda, add them to the \`theme.extend.textStyles\` key of your panda.config
+ */
+export const textStyles = ${JSON.stringify(config, null, 2)};
+`);
+}
@@ -1,25 +1,32 @@
 import { createMergeCss } from "@pandacss/shared";
 
-import { createPandaContext } from "./panda-context";
+import { PandaContext, createPandaContext } from "./panda-context";
 import { mapToShorthands } from "./panda-map-to-shorthands";
 import { createTailwindContext } from "./tw-context";
 import { twClassListToPandaStyles } from "./tw-class-list-to-panda-styles";
+import { TailwindContext } from "./tw-types";
 import { RewriteOptions } from "./types";
 
-export async function twClassListToPanda(classListString: string, options: RewriteOptions = { shorthands: true }) {
+/**
+ * Convert a Tailwind class list string to a Panda style object,
+ * using the default Tailwind & Panda contexts unless the project ones are provided
+ */
+export async function twClassListToPanda(
+  classListString: string,
+  options: RewriteOptions = { shorthands: true },
+  contexts: { tailwind?: TailwindContext | undefined; panda?: PandaContext | undefined } = {},
+) {
   const classList = new Set(classListString.split(" "));
 
-  const tw = await createTailwindContext();
-  const tailwind = tw.context;
-
-  const panda = createPandaContext();
+  const tailwind = contexts.tailwind ?? (await createTailwindContext()).context;
+  const panda = contexts.panda ?? createPandaContext();
   const { mergeCss } = createMergeCss({
     utility: panda.utility,
     conditions: panda.conditions,
     hash: false,
   });
 
-  const styles = twClassListToPandaStyles(classList, tailwind, panda);
+  const styles = twClassListToPandaStyles(classList, tailwind, panda, options);
   if (!styles.length) return;
 
   const merged = mergeCss(...styles.map((s) => s.styles));
@@ -7,9 +7,15 @@ export interface TailwindContext {
   /** Parse a candidate class name */
   parseCandidate(candidate: string): readonly TailwindCandidate[];
 
+  /** Print a candidate back to a class name */
+  printCandidate(candidate: TailwindCandidate): string;
+
   /** Parse a variant */
   parseVariant(variant: string): TailwindVariant | null;
 
+  /** Print a variant back to its class name form, e.g. `data-[state=open]` */
+  printVariant(variant: TailwindVariant): string;
+
   /** Get the order of classes for sorting */
   getClassOrder(classes: string[]): [string, bigint | null][];
 
@@ -29,10 +35,10 @@ export interface TailwindContext {
   important: boolean;
 
   /** Theme values */
-  theme: unknown;
+  theme: TailwindTheme;
 
   /** Utilities registry */
-  utilities: unknown;
+  utilities: TailwindUtilities;
 
   /** Variants registry */
   variants: unknown;
@@ -44,6 +50,43 @@ export interface TailwindContext {
   getVariantOrder(): Map<TailwindVariant, number>;
 }
 
+/** The subset of Tailwind's `Theme` class we rely on */
+export interface TailwindTheme {
+  /** The configured prefix (`@import "tailwindcss" prefix(tw)` or v3 `prefix: "tw-"`), without separator */
+  prefix: string | null;
+  /** Theme values of a namespace keyed by name, e.g. `--tab-size` -> Map { "github" => "8" } */
+  namespace(namespace: string): Map<string | null, string>;
+  /** The `@keyframes` defined in `@theme`, e.g. `@keyframes spin { to { transform: rotate(360deg) } }` */
+  getKeyframes(): TailwindAtRule[];
+}
+
+/** The Tailwind AST nodes of `@keyframes` */
+export interface TailwindAtRule {
+  kind: "at-rule";
+  name: string;
+  params: string;
+  nodes: Array<TailwindRule | TailwindDeclaration>;
+}
+
+export interface TailwindRule {
+  kind: "rule";
+  selector: string;
+  nodes: Array<TailwindRule | TailwindDeclaration>;
+}
+
+export interface TailwindDeclaration {
+  kind: "declaration";
+  property: string;
+  value?: string | undefined;
+  important: boolean;
+}
+
+/** The subset of Tailwind's `Utilities` registry we rely on */
+export interface TailwindUtilities {
+  /** Names of the registered utilities, e.g. `flex` (static) or `bg` (functional) */
+  keys(kind: "static" | "functional"): string[];
+}
+
 // Use a more permissive type for candidates since the exact structure varies
 export interface TailwindCandidate {
   kind: string;
@@ -62,6 +105,8 @@ export interface TailwindVariant {
   root?: string;
   value?: unknown;
   modifier?: unknown;
+  /** The variant a compound variant applies to, e.g. `hover` for `group-hover` */
+  variant?: TailwindVariant;
 }
 
 export interface ClassEntry {
@@ -27,6 +27,17 @@ export type MatchingToken = {
   /** The raw CSS value from Tailwind (for token fallback) */
   rawValue: string;
   classInfo: TailwindClass;
+  /** The Panda conditions or arbitrary selectors nested in the utility itself, e.g. `_placeholder` */
+  conditions?: string[];
+  /** The Panda value to use as-is, e.g. `true` for a project `@utility` like `scrollbar-hidden`, `3` for `line-clamp-3` or `red.500/50` */
+  value?: string | number | boolean;
 };
 
-export type RewriteOptions = { shorthands?: boolean | undefined; range?: { start: number; end: number } };
+export type RewriteOptions = {
+  shorthands?: boolean | undefined;
+  /** Map the `text-*` font sizes to Panda text styles, e.g. `text-sm` -> `textStyle: "sm"` */
+  textStyles?: boolean | undefined;
+  /** Rewrite the `space-*` utilities of flex & grid containers to `gap`, e.g. `flex space-x-4` -> `columnGap: "4"` */
+  spaceToGap?: boolean | undefined;
+  range?: { start: number; end: number };
+};
@@ -29,6 +29,10 @@ export interface WatchOptions {
   outDir?: string | undefined;
   /** Use shorthand properties */
   shorthands?: boolean | undefined;
+  /** Map the text-* font sizes to Panda text styles */
+  textStyles?: boolean | undefined;
+  /** Rewrite the space-* utilities of flex & grid containers to gap */
+  spaceToGap?: boolean | undefined;
   /** File extensions to process as HTML */
   htmlExtensions?: string[] | undefined;
   /** File extensions to process as TypeScript/JavaScript */
@@ -37,6 +41,11 @@ export interface WatchOptions {
   ignore?: string[] | undefined;
   /** Callback for events */
   onEvent?: ((event: WatchEvent) => void) | undefined;
+  /**
+   * Get the Tailwind context to convert each file with, instead of `tw`
+   * e.g. `loadTailwindContext`, whose cache picks up edits to the Tailwind CSS entry, its imports & config
+   */
+  loadTailwindContext?: (() => Promise<TailwindContext>) | undefined;
 }
 
 export interface WatchEvent {
@@ -69,10 +78,13 @@ export function watchFiles(
     cwd,
     outDir,
     shorthands = false,
+    textStyles = false,
+    spaceToGap = false,
     htmlExtensions = DEFAULT_HTML_EXTENSIONS,
     tsExtensions = DEFAULT_TS_EXTENSIONS,
     ignore = [],
     onEvent,
+    loadTailwindContext,
   } = options;
 
   // Create merge function
@@ -113,20 +125,25 @@ export function watchFiles(
 
     try {
       const content = readFileSync(absolutePath, "utf-8");
+      const tailwind = loadTailwindContext ? await loadTailwindContext() : tw;
 
       let converted: string;
 
       if (htmlExtensions.includes(ext)) {
         // HTML -> TSX conversion
-        const result = rewriteHtmlToPanda(content, tw, panda, mergeCss, {
+        const result = rewriteHtmlToPanda(content, tailwind, panda, mergeCss, {
           shorthands,
+          textStyles,
+          spaceToGap,
           fileName: basename(filePath, ext),
         });
         converted = maybePretty(result.output);
       } else if (tsExtensions.includes(ext)) {
         // TS/JS conversion
-        const result = rewriteTwFileContentToPanda(content, filePath, tw, panda, mergeCss, {
+        const result = rewriteTwFileContentToPanda(content, filePath, tailwind, panda, mergeCss, {
           shorthands,
+          textStyles,
+          spaceToGap,
         } as RewriteOptions);
         converted = result.output;
       } else {
@@ -1,8 +1,9 @@
 import { createMergeCss } from "@pandacss/shared";
-import { describe, expect, test, beforeAll } from "vitest";
+import { describe, expect, test, beforeAll, vi } from "vitest";
 import { extractTwFileClassList } from "../src/extract-tw-class-list";
 import { createPandaContext } from "../src/panda-context";
-import { createTailwindContext, clearTailwindContextCache } from "../src/tw-context";
+import { getBreakpointMismatches } from "../src/tw-breakpoints";
+import { createTailwindContext } from "../src/tw-context";
 import { twClassListToPandaStyles } from "../src/tw-class-list-to-panda-styles";
 import { TailwindContext } from "../src/tw-types";
 
@@ -13,7 +14,6 @@ describe("extract-tw-class-list", () => {
   let tailwindContext: TailwindContext;
 
   beforeAll(async () => {
-    clearTailwindContextCache();
     const tw = await createTailwindContext();
     tailwindContext = tw.context;
   });
@@ -108,6 +108,49 @@ describe("extract-tw-class-list", () => {
     expect(importantStyles.length).toBeGreaterThan(0);
   });
 
+  test("important modifier values", async () => {
+    const classList = new Set([
+      "flex!",
+      "!p-4",
+      "hover:!bg-red-500",
+      "md:bg-red-500/50!",
+      "top-[117px]!",
+      "[mask-type:luminance]!",
+      "-mt-4!",
+    ]);
+
+    const stylesList = twClassListToPandaStyles(classList, tailwindContext, createPandaContext());
+    expect(stylesList.map((s) => s.styles)).toMatchInlineSnapshot(`
+      [
+        {
+          "display": "flex !important",
+        },
+        {
+          "padding": "token(spacing.4, 1rem)!",
+        },
+        {
+          "_hover": {
+            "backgroundColor": "token(colors.red.500, oklch(63.7% 0.237 25.331))!",
+          },
+        },
+        {
+          "md": {
+            "backgroundColor": "color-mix(in oklab, token(colors.red.500, oklch(63.7% 0.237 25.331)) 50%, transparent)!",
+          },
+        },
+        {
+          "top": "117px !important",
+        },
+        {
+          "maskType": "luminance !important",
+        },
+        {
+          "marginTop": "-4!",
+        },
+      ]
+    `);
+  });
+
   test("dark mode classes", async () => {
     const classList = new Set(["dark:bg-slate-800", "dark:text-white"]);
 
@@ -115,13 +158,13 @@ describe("extract-tw-class-list", () => {
 
     const stylesList = twClassListToPandaStyles(classList, tailwindContext, panda);
 
-    // Verify dark mode styles are nested correctly
+    // Verify dark mode styles are nested correctly (Tailwind's default dark mode is media-based)
     expect(stylesList.length).toBeGreaterThan(0);
 
     const darkStyles = stylesList.filter((s) => s.match.classInfo.modifiers.includes("dark"));
     expect(darkStyles.length).toBeGreaterThan(0);
     darkStyles.forEach((s) => {
-      expect(s.styles).toHaveProperty("_dark");
+      expect(s.styles).toHaveProperty("_osDark");
     });
   });
 
@@ -143,4 +186,786 @@ describe("extract-tw-class-list", () => {
     expect(lgStyle).toBeDefined();
     expect(lgStyle?.styles).toHaveProperty("lg");
   });
+
+  test("breakpoint ranges & max-* variants", async () => {
+    const classList = new Set(["max-md:hidden", "md:max-lg:flex", "sm:max-xl:grid", "min-[300px]:block", "2xl:flex"]);
+
+    const stylesList = twClassListToPandaStyles(classList, tailwindContext, createPandaContext());
+    expect(stylesList.map((s) => s.styles)).toMatchInlineSnapshot(`
+      [
+        {
+          "smDown": {
+            "display": "none",
+          },
+        },
+        {
+          "mdOnly": {
+            "display": "flex",
+          },
+        },
+        {
+          "smToLg": {
+            "display": "grid",
+          },
+        },
+        {
+          "@media (width >= 300px)": {
+            "display": "block",
+          },
+        },
+        {
+          "2xl": {
+            "display": "flex",
+          },
+        },
+      ]
+    `);
+  });
+
+  test("breakpoints from the Tailwind theme", async () => {
+    const tw = await createTailwindContext(
+      `@import "tailwindcss"; @theme { --breakpoint-md: 50rem; --breakpoint-3xl: 120rem; }`,
+    );
+    const panda = createPandaContext();
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+    const classList = new Set(["md:flex", "lg:max-3xl:grid", "3xl:hidden"]);
+    const stylesList = twClassListToPandaStyles(classList, tw.context, panda);
+    expect(stylesList.map((s) => s.styles)).toMatchInlineSnapshot(`
+      [
+        {
+          "@media (width >= 50rem)": {
+            "display": "flex",
+          },
+        },
+        {
+          "@media (width >= 64rem)": {
+            "@media (width < 120rem)": {
+              "display": "grid",
+            },
+          },
+        },
+        {
+          "@media (width >= 120rem)": {
+            "display": "none",
+          },
+        },
+      ]
+    `);
+
+    expect(getBreakpointMismatches(tw.context, panda)).toMatchInlineSnapshot(`
+      [
+        {
+          "name": "md",
+          "panda": "768px",
+          "tailwind": "50rem",
+        },
+      ]
+    `);
+    // Reported to the caller, the library doesn't log
+    expect(warn).not.toHaveBeenCalled();
+    warn.mockRestore();
+  });
+
+  test("color opacity modifiers", async () => {
+    const classList = new Set(["bg-red-500/50", "hover:text-black/[0.1]", "bg-[#ff0000]/50"]);
+
+    const styles = twClassListToPandaStyles(classList, tailwindContext, createPandaContext());
+    expect(styles.map((s) => s.styles)).toMatchInlineSnapshot(`
+      [
+        {
+          "backgroundColor": "color-mix(in oklab, token(colors.red.500, oklch(63.7% 0.237 25.331)) 50%, transparent)",
+        },
+        {
+          "_hover": {
+            "color": "color-mix(in oklab, token(colors.black, #000) 10%, transparent)",
+          },
+        },
+        {
+          "backgroundColor": "color-mix(in oklab, #ff0000 50%, transparent)",
+        },
+      ]
+    `);
+
+    const modifierStyles = twClassListToPandaStyles(
+      classList,
+      tailwindContext,
+      createPandaContext({ version: "0.27.0" }),
+    );
+    expect(modifierStyles.map((s) => s.styles)).toMatchInlineSnapshot(`
+      [
+        {
+          "backgroundColor": "red.500/50",
+        },
+        {
+          "_hover": {
+            "color": "black/10",
+          },
+        },
+        {
+          "backgroundColor": "color-mix(in oklab, #ff0000 50%, transparent)",
+        },
+      ]
+    `);
+  });
+
+  test("arbitrary variants", async () => {
+    const classList = new Set([
+      "[&>svg]:size-4",
+      "data-[state=open]:flex",
+      "data-[side=left]:[&_p]:hidden",
+      "data-disabled:opacity-50",
+      "aria-[sort=ascending]:underline",
+      "supports-[display:grid]:grid",
+      "[@media(min-width:900px)]:flex",
+      "*:p-2",
+    ]);
+
+    const stylesList = twClassListToPandaStyles(classList, tailwindContext, createPandaContext());
+
+    expect(stylesList.map((s) => s.styles)).toMatchInlineSnapshot(`
+      [
+        {
+          "& > svg": {
+            "width": "token(sizes.4, 1rem)",
+          },
+        },
+        {
+          "& > svg": {
+            "height": "token(sizes.4, 1rem)",
+          },
+        },
+        {
+          "&[data-state="open"]": {
+            "display": "flex",
+          },
+        },
+        {
+          "&[data-side="left"]": {
+            "& p": {
+              "display": "none",
+            },
+          },
+        },
+        {
+          "_disabled": {
+            "opacity": "50%",
+          },
+        },
+        {
+          "&[aria-sort="ascending"]": {
+            "textDecorationLine": "underline",
+          },
+        },
+        {
+          "@supports (display:grid)": {
+            "display": "grid",
+          },
+        },
+        {
+          "@media (min-width:900px)": {
+            "display": "flex",
+          },
+        },
+        {
+          ":is(& > *)": {
+            "padding": "token(spacing.2, 0.5rem)",
+          },
+        },
+      ]
+    `);
+  });
+
+  test("data-state variants use the Panda condition only when it targets data-state", async () => {
+    const panda = createPandaContext({
+      config: { conditions: { extend: { open: "&:is([open], [data-state=open])" } } },
+    });
+    const stylesList = twClassListToPandaStyles(
+      new Set(["data-[state=open]:flex", "data-[state=closed]:hidden"]),
+      tailwindContext,
+      panda,
+    );
+
+    expect(stylesList.map((s) => s.styles)).toMatchInlineSnapshot(`
+      [
+        {
+          "_open": {
+            "display": "flex",
+          },
+        },
+        {
+          "&[data-state="closed"]": {
+            "display": "none",
+          },
+        },
+      ]
+    `);
+  });
+
+  test("container queries", async () => {
+    const tw = await createTailwindContext(`@import "tailwindcss"; @theme { --container-sidebar: 20rem; }`);
+    const classList = new Set([
+      "@container",
+      "@container/sidebar",
+      "@md:flex",
+      "@max-lg:hidden",
+      "@[400px]:grid",
+      "@lg/sidebar:block",
+      "@sidebar:flex",
+    ]);
+
+    // Raw `@container` at-rules when Panda has no container query conditions
+    const stylesList = twClassListToPandaStyles(classList, tw.context, createPandaContext({ version: "0.39.0" }));
+    expect(stylesList.map((s) => s.styles)).toMatchInlineSnapshot(`
+      [
+        {
+          "containerType": "inline-size",
+        },
+        {
+          "containerType": "inline-size",
+        },
+        {
+          "containerName": "sidebar",
+        },
+        {
+          "@container (width >= 28rem)": {
+            "display": "flex",
+          },
+        },
+        {
+          "@container (width < 32rem)": {
+            "display": "none",
+          },
+        },
+        {
+          "@container (width >= 400px)": {
+            "display": "grid",
+          },
+        },
+        {
+          "@container sidebar (width >= 32rem)": {
+            "display": "block",
+          },
+        },
+        {
+          "@container (width >= 20rem)": {
+            "display": "flex",
+          },
+        },
+      ]
+    `);
+
+    // Panda container query conditions, when the `containerSizes` & `containerNames` theme match
+    const panda = createPandaContext({
+      version: "0.40.0",
+      config: {
+        theme: { extend: { containerSizes: { md: "28rem", lg: "32rem" }, containerNames: ["sidebar"] } } as any,
+      },
+    });
+    const pandaStylesList = twClassListToPandaStyles(classList, tw.context, panda);
+    expect(pandaStylesList.map((s) => s.styles)).toMatchInlineSnapshot(`
+      [
+        {
+          "containerType": "inline-size",
+        },
+        {
+          "containerType": "inline-size",
+        },
+        {
+          "containerName": "sidebar",
+        },
+        {
+          "@/md": {
+            "display": "flex",
+          },
+        },
+        {
+          "@container (width < 32rem)": {
+            "display": "none",
+          },
+        },
+        {
+          "@container (width >= 400px)": {
+            "display": "grid",
+          },
+        },
+        {
+          "@sidebar/lg": {
+            "display": "block",
+          },
+        },
+        {
+          "@container (width >= 20rem)": {
+            "display": "flex",
+          },
+        },
+      ]
+    `);
+  });
+
+  test("arbitrary properties & CSS variables", async () => {
+    const classList = new Set([
+      "[mask-type:luminance]",
+      "[--scroll-offset:44px]",
+      "hover:[--scroll-offset:56px]",
+      "[grid-template-columns:1fr_2fr]!",
+      "w-(--sidebar-width)",
+      "bg-(image:--hero)",
+      "text-(--color-red-500)",
+      "bg-[#ff0000]",
+    ]);
+
+    const stylesList = twClassListToPandaStyles(classList, tailwindContext, createPandaContext());
+    expect(stylesList.map((s) => s.styles)).toMatchInlineSnapshot(`
+      [
+        {
+          "maskType": "luminance",
+        },
+        {
+          "--scroll-offset": "44px",
+        },
+        {
+          "_hover": {
+            "--scroll-offset": "56px",
+          },
+        },
+        {
+          "gridTemplateColumns": "1fr 2fr !important",
+        },
+        {
+          "width": "var(--sidebar-width)",
+        },
+        {
+          "backgroundImage": "var(--hero)",
+        },
+        {
+          "color": "token(colors.red.500, oklch(63.7% 0.237 25.331))",
+        },
+        {
+          "backgroundColor": "#ff0000",
+        },
+      ]
+    `);
+  });
+
+  test("negative & fractional values", async () => {
+    const classList = new Set([
+      "-mt-4",
+      "-mx-0.5",
+      "-translate-x-1/2",
+      "w-1/2",
+      "inset-x-1/3",
+      "-z-10",
+      "-top-px",
+      "-m-[3px]",
+    ]);
+
+    const stylesList = twClassListToPandaStyles(classList, tailwindContext, createPandaContext());
+    expect(stylesList.map((s) => s.styles)).toMatchInlineSnapshot(`
+      [
+        {
+          "marginTop": "-4",
+        },
+        {
+          "marginInline": "-0.5",
+        },
+        {
+          "translate": "-50% 0",
+        },
+        {
+          "width": "1/2",
+        },
+        {
+          "insetInline": "33.333333%",
+        },
+        {
+          "zIndex": "-10",
+        },
+        {
+          "top": "-1px",
+        },
+        {
+          "margin": "-3px",
+        },
+      ]
+    `);
+  });
+
+  test("multi-declaration utilities", async () => {
+    const classList = new Set([
+      "truncate",
+      "sr-only",
+      "md:not-sr-only",
+      "line-clamp-3",
+      "inset-0",
+      "size-10",
+      "size-[20px]",
+      "container",
+    ]);
+
+    // No `boxSize` utility in this preset, `size-*` stays as width & height
+    const stylesList = twClassListToPandaStyles(classList, tailwindContext, createPandaContext());
+    expect(stylesList.map((s) => s.styles)).toMatchInlineSnapshot(`
+      [
+        {
+          "truncate": true,
+        },
+        {
+          "srOnly": true,
+        },
+        {
+          "md": {
+            "srOnly": false,
+          },
+        },
+        {
+          "lineClamp": 3,
+        },
+        {
+          "inset": "0",
+        },
+        {
+          "width": "token(sizes.10, 2.5rem)",
+        },
+        {
+          "height": "token(sizes.10, 2.5rem)",
+        },
+        {
+          "width": "20px",
+        },
+        {
+          "height": "20px",
+        },
+        {
+          "width": "100%",
+        },
+        {
+          "@media (width >= 40rem)": {
+            "maxWidth": "40rem",
+          },
+        },
+        {
+          "@media (width >= 48rem)": {
+            "maxWidth": "48rem",
+          },
+        },
+        {
+          "@media (width >= 64rem)": {
+            "maxWidth": "64rem",
+          },
+        },
+        {
+          "@media (width >= 80rem)": {
+            "maxWidth": "80rem",
+          },
+        },
+        {
+          "@media (width >= 96rem)": {
+            "maxWidth": "96rem",
+          },
+        },
+      ]
+    `);
+
+    const panda = createPandaContext({
+      config: {
+        utilities: {
+          boxSize: {
+            className: "size",
+            values: "sizes",
+            transform: (value: string) => ({ width: value, height: value }),
+          },
+        },
+      },
+    });
+    const sizeStyles = twClassListToPandaStyles(new Set(["size-10", "size-[20px]"]), tailwindContext, panda);
+    expect(sizeStyles.map((s) => s.styles)).toMatchInlineSnapshot(`
+      [
+        {
+          "boxSize": "10",
+        },
+        {
+          "boxSize": "20px",
+        },
+      ]
+    `);
+
+    // Booleans & numbers can't be `!important`, the declarations are kept instead
+    const importantStyles = twClassListToPandaStyles(
+      new Set(["!truncate", "sr-only!", "!line-clamp-3", "!size-10"]),
+      tailwindContext,
+      panda,
+    );
+    expect(importantStyles.map((s) => s.styles)).toMatchInlineSnapshot(`
+      [
+        {
+          "overflow": "hidden !important",
+        },
+        {
+          "textOverflow": "ellipsis !important",
+        },
+        {
+          "whiteSpace": "nowrap !important",
+        },
+        {
+          "position": "absolute !important",
+        },
+        {
+          "width": "1px !important",
+        },
+        {
+          "height": "1px !important",
+        },
+        {
+          "padding": "0 !important",
+        },
+        {
+          "margin": "-1px !important",
+        },
+        {
+          "overflow": "hidden !important",
+        },
+        {
+          "clipPath": "inset(50%) !important",
+        },
+        {
+          "whiteSpace": "nowrap !important",
+        },
+        {
+          "borderWidth": "0 !important",
+        },
+        {
+          "overflow": "hidden !important",
+        },
+        {
+          "display": "-webkit-box !important",
+        },
+        {
+          "WebkitBoxOrient": "vertical !important",
+        },
+        {
+          "WebkitLineClamp": "3 !important",
+        },
+        {
+          "boxSize": "10 !important",
+        },
+      ]
+    `);
+  });
+
+  test("nested selectors & at-rules of the utility itself", async () => {
+    const classList = new Set(["space-y-4", "md:divide-x", "outline-hidden", "placeholder:text-gray-400"]);
+
+    const panda = createPandaContext();
+
+    const stylesList = twClassListToPandaStyles(classList, tailwindContext, panda);
+
+    expect(stylesList.map((s) => s.styles)).toMatchInlineSnapshot(`
+      [
+        {
+          ":where(& > :not(:last-child))": {
+            "marginBlockStart": "0rem",
+          },
+        },
+        {
+          ":where(& > :not(:last-child))": {
+            "marginBlockEnd": "1rem",
+          },
+        },
+        {
+          "md": {
+            ":where(& > :not(:last-child))": {
+              "borderInlineStyle": "solid",
+            },
+          },
+        },
+        {
+          "md": {
+            ":where(& > :not(:last-child))": {
+              "borderInlineStartWidth": "0px",
+            },
+          },
+        },
+        {
+          "md": {
+            ":where(& > :not(:last-child))": {
+              "borderInlineEndWidth": "1px",
+            },
+          },
+        },
+        {
+          "outlineStyle": "none",
+        },
+        {
+          "_highContrast": {
+            "outline": "2px solid transparent",
+          },
+        },
+        {
+          "_highContrast": {
+            "outlineOffset": "2px",
+          },
+        },
+        {
+          "_placeholder": {
+            "color": "token(colors.gray.400, oklch(70.7% 0.022 261.325))",
+          },
+        },
+      ]
+    `);
+  });
+
+  test("space-* & divide-* target the children, or become a gap with the spaceToGap option", async () => {
+    const panda = createPandaContext();
+    const { mergeCss } = createMergeCss(Object.assign(panda, { hash: false }));
+    const convert = (classList: string, spaceToGap = false) =>
+      mergeCss(
+        ...twClassListToPandaStyles(new Set(classList.split(" ")), tailwindContext, panda, { spaceToGap }).map(
+          (s) => s.styles,
+        ),
+      );
+
+    expect(convert("space-x-reverse space-x-4 divide-y divide-gray-200")).toMatchInlineSnapshot(`
+      {
+        ":where(& > :not(:last-child))": {
+          "borderBottomStyle": "solid",
+          "borderBottomWidth": "1px",
+          "borderColor": "token(colors.gray.200, oklch(92.8% 0.006 264.531))",
+          "borderTopStyle": "solid",
+          "borderTopWidth": "0px",
+          "marginInlineEnd": "0rem",
+          "marginInlineStart": "1rem",
+        },
+      }
+    `);
+    expect(convert("flex space-x-4 md:space-y-[10px]", true)).toMatchInlineSnapshot(`
+      {
+        "columnGap": "token(spacing.4, 1rem)",
+        "display": "flex",
+        "md": {
+          "rowGap": "10px",
+        },
+      }
+    `);
+    // Not clearly a flex container, or no gap equivalent
+    expect(convert("md:flex space-x-4", true)).toMatchInlineSnapshot(`
+      {
+        ":where(& > :not(:last-child))": {
+          "marginInlineEnd": "1rem",
+          "marginInlineStart": "0rem",
+        },
+        "md": {
+          "display": "flex",
+        },
+      }
+    `);
+    expect(convert("grid -space-y-2 space-x-reverse space-x-4", true)).toMatchInlineSnapshot(`
+      {
+        ":where(& > :not(:last-child))": {
+          "marginBlockEnd": "-0.5rem",
+          "marginBlockStart": "0rem",
+          "marginInlineEnd": "0rem",
+          "marginInlineStart": "1rem",
+        },
+        "display": "grid",
+      }
+    `);
+  });
+
+  test("internal variables composed across the class list", async () => {
+    const panda = createPandaContext();
+    const { mergeCss } = createMergeCss(Object.assign(panda, { hash: false }));
+    const convert = (classList: string) =>
+      mergeCss(...twClassListToPandaStyles(new Set(classList.split(" ")), tailwindContext, panda).map((s) => s.styles));
+
+    expect(convert("translate-x-2 -translate-y-1/2 rotate-45 scale-95")).toMatchInlineSnapshot(`
+      {
+        "rotate": "45deg",
+        "scale": "95% 95%",
+        "translate": "0.5rem -50%",
+      }
+    `);
+    expect(convert("ring-2 ring-offset-2 ring-red-500 focus-visible:ring-blue-500")).toMatchInlineSnapshot(`
+      {
+        "_focusVisible": {
+          "boxShadow": "0 0 0 2px #fff, 0 0 0 4px token(colors.blue.500, oklch(62.3% 0.214 259.815))",
+        },
+        "boxShadow": "0 0 0 2px #fff, 0 0 0 4px token(colors.red.500, oklch(63.7% 0.237 25.331))",
+      }
+    `);
+    expect(convert("md:ring-2 ring-red-500")).toMatchInlineSnapshot(`
+      {
+        "md": {
+          "boxShadow": "0 0 0 2px token(colors.red.500, oklch(63.7% 0.237 25.331))",
+        },
+      }
+    `);
+    expect(convert("shadow-lg shadow-black/20 inset-ring-1")).toMatchInlineSnapshot(`
+      {
+        "boxShadow": "inset 0 0 0 1px currentcolor, 0 10px 15px -3px color-mix(in oklab, token(colors.black, #000) 20%, transparent), 0 4px 6px -4px color-mix(in oklab, token(colors.black, #000) 20%, transparent)",
+      }
+    `);
+    expect(convert("blur-sm grayscale hover:brightness-50")).toMatchInlineSnapshot(`
+      {
+        "_hover": {
+          "filter": "blur(8px) brightness(50%) grayscale(100%)",
+        },
+        "filter": "blur(8px) grayscale(100%)",
+      }
+    `);
+    expect(convert("border-2 outline-2 outline-dashed text-sm")).toMatchInlineSnapshot(`
+      {
+        "borderStyle": "solid",
+        "borderWidth": "2px",
+        "fontSize": "token(fontSizes.sm, 0.875rem)",
+        "lineHeight": "1.428571",
+        "outlineStyle": "dashed",
+        "outlineWidth": "2px",
+      }
+    `);
+  });
+
+  test("gradients", async () => {
+    const panda = createPandaContext();
+    const { mergeCss } = createMergeCss(Object.assign(panda, { hash: false }));
+    const convert = (classList: string) =>
+      mergeCss(...twClassListToPandaStyles(new Set(classList.split(" ")), tailwindContext, panda).map((s) => s.styles));
+
+    expect(convert("bg-linear-to-r from-indigo-500 via-purple-500 to-pink-500")).toMatchInlineSnapshot(`
+      {
+        "backgroundGradient": "to-r",
+        "gradientFrom": "indigo.500",
+        "gradientTo": "pink.500",
+        "gradientVia": "purple.500",
+      }
+    `);
+    expect(convert("bg-gradient-to-br from-black hover:to-white")).toMatchInlineSnapshot(`
+      {
+        "_hover": {
+          "gradientTo": "white",
+        },
+        "backgroundGradient": "to-br",
+        "gradientFrom": "black",
+      }
+    `);
+    // No Panda equivalent, the whole gradient keeps an explicit background image
+    expect(convert("bg-linear-[25deg] from-red-500 to-blue-500")).toMatchInlineSnapshot(`
+      {
+        "backgroundImage": "linear-gradient(25deg, token(colors.red.500, oklch(63.7% 0.237 25.331)) 0%, token(colors.blue.500, oklch(62.3% 0.214 259.815)) 100%)",
+      }
+    `);
+    expect(convert("bg-radial from-red-500 to-blue-500")).toMatchInlineSnapshot(`
+      {
+        "backgroundImage": "radial-gradient(in oklab, token(colors.red.500, oklch(63.7% 0.237 25.331)) 0%, token(colors.blue.500, oklch(62.3% 0.214 259.815)) 100%)",
+      }
+    `);
+    expect(convert("bg-linear-to-r from-red-500 from-10% to-blue-500")).toMatchInlineSnapshot(`
+      {
+        "@supports (background-image: linear-gradient(in lab, red, red))": {
+          "backgroundImage": "linear-gradient(to right in oklab, token(colors.red.500, oklch(63.7% 0.237 25.331)) 10%, token(colors.blue.500, oklch(62.3% 0.214 259.815)) 100%)",
+        },
+        "backgroundImage": "linear-gradient(to right, token(colors.red.500, oklch(63.7% 0.237 25.331)) 10%, token(colors.blue.500, oklch(62.3% 0.214 259.815)) 100%)",
+      }
+    `);
+  });
 });
@@ -0,0 +1,102 @@
+import { describe, expect, test } from "vitest";
+import { join, relative } from "pathe";
+import {
+  findPandaVersion,
+  findTailwindCssEntries,
+  findTailwindCssEntry,
+  isLegacyTailwindCssEntry,
+  isTailwindCssEntry,
+} from "../src/config/find-config";
+import { findTailwindEntry, loadPandaContext, loadTailwindContext } from "../src/config/load-context";
+
+const monorepoDir = join(__dirname, "../samples/monorepo");
+const toRelative = (paths: Array<string | undefined>) => paths.map((path) => path && relative(monorepoDir, path));
+
+describe("find-config", () => {
+  test("isTailwindCssEntry", () => {
+    expect(isTailwindCssEntry(`@import "tailwindcss";`)).toBe(true);
+    expect(isTailwindCssEntry(`@import 'tailwindcss' prefix(tw);`)).toBe(true);
+    expect(isTailwindCssEntry(`@import url("tailwindcss/index.css");`)).toBe(true);
+    expect(isTailwindCssEntry(`@tailwind utilities;`)).toBe(true);
+    expect(isTailwindCssEntry(`@import "tailwindcss/theme.css";`)).toBe(false);
+    expect(isTailwindCssEntry(`.btn { color: red; }`)).toBe(false);
+
+    expect(isLegacyTailwindCssEntry(`@tailwind base;`)).toBe(true);
+    expect(isLegacyTailwindCssEntry(`@import "tailwindcss";`)).toBe(false);
+  });
+
+  test("findTailwindCssEntries", () => {
+    expect(toRelative(findTailwindCssEntries({ cwd: monorepoDir }))).toMatchInlineSnapshot(`
+      [
+        "apps/admin/admin.css",
+        "apps/admin/print.css",
+        "apps/legacy/styles.css",
+        "apps/web/src/app.css",
+      ]
+    `);
+  });
+
+  test("findTailwindCssEntry - picks the closest entry", () => {
+    const entry = findTailwindCssEntry({ cwd: monorepoDir, from: "apps/web/src/components/Button.tsx" });
+    expect(toRelative([entry.filePath])).toEqual(["apps/web/src/app.css"]);
+    expect(entry.isAmbiguous).toBe(false);
+  });
+
+  test("findTailwindCssEntry - reports ambiguity", () => {
+    const entry = findTailwindCssEntry({ cwd: monorepoDir, from: "apps/admin/Page.tsx" });
+    expect(entry.filePath).toBeUndefined();
+    expect(entry.isAmbiguous).toBe(true);
+    expect(toRelative(entry.candidates)).toEqual(["apps/admin/admin.css", "apps/admin/print.css"]);
+
+    const tailwindEntry = findTailwindEntry({ cwd: join(monorepoDir, "apps/admin") });
+    expect(tailwindEntry.filePath).toBeUndefined();
+    expect(tailwindEntry.isAmbiguous).toBe(true);
+    expect(toRelative(tailwindEntry.candidates)).toEqual(["apps/admin/admin.css", "apps/admin/print.css"]);
+  });
+
+  test("loadTailwindContext - reports the ambiguous entries", async () => {
+    await expect(loadTailwindContext({ cwd: monorepoDir })).rejects.toThrow("Found multiple Tailwind CSS entries");
+
+    let ambiguousEntries: string[] = [];
+    const { filePath } = await loadTailwindContext({
+      cwd: monorepoDir,
+      onAmbiguousEntry: (candidates) => {
+        ambiguousEntries = candidates;
+        return candidates.at(-1)!;
+      },
+    });
+    expect(toRelative([filePath])).toEqual(["apps/web/src/app.css"]);
+    expect(toRelative(ambiguousEntries)).toEqual([
+      "apps/admin/admin.css",
+      "apps/admin/print.css",
+      "apps/legacy/styles.css",
+      "apps/web/src/app.css",
+    ]);
+  });
+
+  test("findTailwindEntry - prefers the legacy config over v3 @tailwind directives", () => {
+    const { filePath } = findTailwindEntry({ cwd: join(monorepoDir, "apps/legacy") });
+    expect(toRelative([filePath])).toEqual(["apps/legacy/tailwind.config.cjs"]);
+  });
+
+  test("loadTailwindContext - auto-discovers the CSS entry", async () => {
+    const { context, filePath } = await loadTailwindContext({
+      cwd: join(monorepoDir, "apps/web"),
+      file: "src/components/button.css",
+    });
+
+    expect(toRelative([filePath])).toEqual(["apps/web/src/app.css"]);
+    expect(context.resolveThemeValue("--color-brand-500")).toBe("#0ea5e9");
+  });
+
+  test("findPandaVersion - reads the closest installed @pandacss package", () => {
+    // Resolved from the node_modules of tw2panda itself, @pandacss/dev first
+    expect(findPandaVersion({ cwd: join(monorepoDir, "apps/web") })).toBe("0.6.0");
+    expect(findPandaVersion({ cwd: "/" })).toBeUndefined();
+  });
+
+  test("loadPandaContext - targets the project Panda version", async () => {
+    expect((await loadPandaContext({ cwd: monorepoDir })).context.version).toBe("0.6.0");
+    expect((await loadPandaContext({ cwd: "/", version: "0.40.0" })).context.version).toBe("0.40.0");
+  });
+});
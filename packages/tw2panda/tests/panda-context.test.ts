@@ -31,6 +31,7 @@ describe("panda-context", () => {
         "getParserCss",
         "messages",
         "parserOptions",
+        "version",
         "project",
       ]
     `);
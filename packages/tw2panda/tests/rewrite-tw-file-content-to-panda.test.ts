@@ -1,7 +1,7 @@
 import { createMergeCss } from "@pandacss/shared";
 import { describe, expect, test, beforeAll } from "vitest";
 import { createPandaContext } from "../src/panda-context";
-import { createTailwindContext, clearTailwindContextCache } from "../src/tw-context";
+import { createTailwindContext } from "../src/tw-context";
 import { rewriteTwFileContentToPanda } from "../src/rewrite-tw-file-content-to-panda";
 import { TailwindContext } from "../src/tw-types";
 
@@ -12,7 +12,6 @@ describe("rewrite-tw-file-content-to-panda", () => {
   let tailwindContext: TailwindContext;
 
   beforeAll(async () => {
-    clearTailwindContextCache();
     const tw = await createTailwindContext();
     tailwindContext = tw.context;
   });
@@ -162,8 +161,98 @@ describe("rewrite-tw-file-content-to-panda", () => {
 
     const { output } = rewriteTwFileContentToPanda(input, "Component.tsx", tailwindContext, panda, mergeCss);
 
-    // Verify dark mode is converted to _dark
-    expect(output).toContain("_dark");
+    // Verify dark mode is converted to _osDark, Tailwind's default dark mode being media-based
+    expect(output).toContain("_osDark");
     expect(output).toContain("css({");
   });
+
+  test("prefixed classes", async () => {
+    const panda = createPandaContext();
+    const { mergeCss } = createMergeCss({
+      utility: panda.utility,
+      conditions: panda.conditions,
+      hash: false,
+    });
+    const tw = await createTailwindContext(`@import "tailwindcss" prefix(tw);`);
+
+    const input = `
+      const Component = () => {
+        return (
+          <div className="tw:group tw:flex tw:hover:bg-red-500 tw:md:p-4 flex card">
+            Content
+          </div>
+        )
+      }
+    `;
+
+    const { output } = rewriteTwFileContentToPanda(input, "Component.tsx", tw.context, panda, mergeCss);
+    expect(output).toMatchInlineSnapshot(`
+      "import { css, cx } from '../styled-system/css'
+
+      const Component = () => {
+        return (
+          <div
+            className={cx(
+              css({
+                display: 'flex',
+                _hover: { bgColor: 'token(colors.red.500, oklch(63.7% 0.237 25.331))' },
+                md: { p: 'token(spacing.4, 1rem)' },
+              }),
+              'group',
+              'flex',
+              'card',
+            )}
+          >
+            Content
+          </div>
+        )
+      }
+      "
+    `);
+  });
+
+  test("classes prefixed by a v3 config", async () => {
+    const panda = createPandaContext();
+    const { mergeCss } = createMergeCss({
+      utility: panda.utility,
+      conditions: panda.conditions,
+      hash: false,
+    });
+    const tw = await createTailwindContext({ prefix: "tw-" });
+
+    const input = `
+      const Component = () => {
+        return (
+          <div className="tw-group tw-flex hover:tw-bg-red-500 md:tw-p-4 flex card">
+            Content
+          </div>
+        )
+      }
+    `;
+
+    const { output } = rewriteTwFileContentToPanda(input, "Component.tsx", tw.context, panda, mergeCss);
+    expect(output).toMatchInlineSnapshot(`
+      "import { css, cx } from '../styled-system/css'
+
+      const Component = () => {
+        return (
+          <div
+            className={cx(
+              css({
+                display: 'flex',
+                _hover: { bgColor: 'token(colors.red.500, oklch(63.7% 0.237 25.331))' },
+                md: { p: 'token(spacing.4, 1rem)' },
+              }),
+              'group',
+              'flex',
+              'card',
+            )}
+          >
+            Content
+          </div>
+        )
+      }
+      "
+    `);
+  });
 });
@@ -1,11 +1,22 @@
 import { describe, expect, test } from "vitest";
-import { createTailwindContext, clearTailwindContextCache } from "../src/tw-context";
+import {
+  createTailwindContext,
+  createTailwindContextSync,
+  createTailwindContextCache,
+  getTailwindContextDependencies,
+} from "../src/tw-context";
+import { loadTailwindContext } from "../src/config/load-context";
+import { createPandaContext } from "../src/panda-context";
+import { twClassListToPandaStyles } from "../src/tw-class-list-to-panda-styles";
+import { resolveStylesheet } from "../src/resolve-utils";
+import { join } from "pathe";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+
+const samplesDir = join(__dirname, "../samples");
 
 describe("tw-context", () => {
   test("createTailwindContext", async () => {
-    // Clear cache before test
-    clearTailwindContextCache();
-
     const ctx = await createTailwindContext();
 
     // v4 DesignSystem has a different structure than v3
@@ -22,4 +33,197 @@ describe("tw-context", () => {
     expect(cssResults[0]).toContain("display: flex");
     expect(cssResults[1]).toContain("background-color:");
   });
+
+  test("resolveStylesheet", () => {
+    const base = join(samplesDir, "css-entry");
+
+    expect(resolveStylesheet("./brand.css", base)).toBe(join(base, "brand.css"));
+    expect(resolveStylesheet("./brand", base)).toBe(join(base, "brand.css"));
+    expect(resolveStylesheet("tailwindcss", base)).toMatch(/tailwindcss\/index\.css$/);
+    expect(resolveStylesheet("tailwindcss/theme", base)).toMatch(/tailwindcss\/theme\.css$/);
+    expect(resolveStylesheet("./missing.css", base)).toBeUndefined();
+    expect(resolveStylesheet("not-a-real-package", base)).toBeUndefined();
+  });
+
+  test("loadTailwindContext from a CSS entry with @import/@theme chain", async () => {
+    const { context, filePath } = await loadTailwindContext({
+      cwd: samplesDir,
+      configPath: "css-entry/app.css",
+    });
+
+    expect(filePath).toBe(join(samplesDir, "css-entry/app.css"));
+    expect(context.resolveThemeValue("--color-brand-500")).toBe("#5b21b6");
+    expect(context.resolveThemeValue("--spacing-gutter")).toBe("1.5rem");
+
+    const styles = twClassListToPandaStyles(
+      new Set(["bg-brand-500", "font-display", "p-gutter"]),
+      context,
+      createPandaContext(),
+    );
+    expect(styles.map((s) => s.styles)).toMatchInlineSnapshot(`
+      [
+        {
+          "backgroundColor": "token(colors.brand.500, #5b21b6)",
+        },
+        {
+          "fontFamily": ""Satoshi", sans-serif",
+        },
+        {
+          "padding": "token(spacing.gutter, 1.5rem)",
+        },
+      ]
+    `);
+  });
+
+  test("loadTailwindContext with @plugin from node_modules & a local path", async () => {
+    const { context } = await loadTailwindContext({
+      cwd: samplesDir,
+      configPath: "plugins/app.css",
+    });
+
+    expect(context.candidatesToCss(["prose"])[0]).toContain(".prose {");
+
+    const styles = twClassListToPandaStyles(
+      new Set(["text-balance-safe", "hocus:underline"]),
+      context,
+      createPandaContext(),
+    );
+    expect(styles.map((s) => s.styles)).toMatchInlineSnapshot(`
+      [
+        {
+          "textWrap": "balance",
+        },
+        {
+          "overflowWrap": "anywhere",
+        },
+        {
+          "&:hover, &:focus": {
+            "textDecorationLine": "underline",
+          },
+        },
+      ]
+    `);
+  });
+
+  test("loadTailwindContext from a legacy tailwind.config.cjs", async () => {
+    const { context, filePath } = await loadTailwindContext({
+      cwd: samplesDir,
+      configPath: "tailwind.config.cjs",
+    });
+
+    expect(filePath).toBe(join(samplesDir, "tailwind.config.cjs"));
+    expect(context.candidatesToCss(["bg-primary", "rounded-lg", "animate-accordion-down"])).toMatchInlineSnapshot(`
+      [
+        ".bg-primary {
+        background-color: hsl(var(--primary));
+      }
+      ",
+        ".rounded-lg {
+        border-radius: var(--radius);
+      }
+      ",
+        ".animate-accordion-down {
+        animation: accordion-down 0.2s ease-out;
+      }
+      ",
+      ]
+    `);
+  });
+
+  test("createTailwindContext with a JS config object", async () => {
+    const { context } = await createTailwindContext({
+      theme: { extend: { colors: { brand: "#123456" }, screens: { "3xl": "1920px" } } },
+    });
+
+    expect(context.resolveThemeValue("--color-brand")).toBe("#123456");
+    expect(context.candidatesToCss(["3xl:bg-brand"])).toMatchInlineSnapshot(`
+      [
+        ".\\33 xl\\:bg-brand {
+        @media (width >= 1920px) {
+          background-color: #123456;
+        }
+      }
+      ",
+      ]
+    `);
+  });
+
+  test("keeps one design system per CSS content & base", async () => {
+    const cache = createTailwindContextCache({ maxSize: 2 });
+    const redTheme = `@import "tailwindcss";\n@theme { --color-brand: red; }`;
+    const blueTheme = `@import "tailwindcss";\n@theme { --color-brand: blue; }`;
+
+    const [red, blue, redAgain] = await Promise.all([
+      createTailwindContext(redTheme, { cache }),
+      createTailwindContext(blueTheme, { cache }),
+      createTailwindContext(redTheme, { cache }),
+    ]);
+
+    expect(red.context).toBe(redAgain.context);
+    expect(red.context).not.toBe(blue.context);
+    expect(red.context.resolveThemeValue("--color-brand")).toBe("red");
+    expect(blue.context.resolveThemeValue("--color-brand")).toBe("blue");
+    expect(cache.size).toBe(2);
+
+    // sync access is explicit about which context it returns
+    expect(createTailwindContextSync(blueTheme, { cache }).context).toBe(blue.context);
+    expect(() => createTailwindContextSync(redTheme, { cache, base: "/elsewhere" })).toThrowError(/not initialized/);
+
+    // least recently used entry (blue) is evicted once the size bound is reached
+    createTailwindContextSync(redTheme, { cache });
+    await createTailwindContext(`@import "tailwindcss";\n@theme { --color-brand: green; }`, { cache });
+    expect(cache.size).toBe(2);
+    expect(cache.has(redTheme, "")).toBe(true);
+    expect(cache.has(blueTheme, "")).toBe(false);
+  });
+
+  test("caches JS config objects by identity", async () => {
+    const cache = createTailwindContextCache();
+    const config = { theme: { extend: { colors: { brand: "green" } } } };
+
+    const green = await createTailwindContext(config, { cache });
+    expect(green.context.resolveThemeValue("--color-brand")).toBe("green");
+    expect((await createTailwindContext(config, { cache })).context).toBe(green.context);
+    expect(createTailwindContextSync(config, { cache }).context).toBe(green.context);
+    expect(() => createTailwindContextSync({ ...config }, { cache })).toThrowError(/not initialized/);
+
+    // without a cache, the design system is loaded again
+    expect((await createTailwindContext(config)).context).not.toBe(green.context);
+  });
+
+  test("invalidates a design system when one of its imported files changes", async () => {
+    const dir = mkdtempSync(join(tmpdir(), "tw2panda-"));
+    const css = `@import "tailwindcss";\n@import "./theme.css";\n@config "./tailwind.config.cjs";`;
+    writeFileSync(join(dir, "theme.css"), `@theme { --color-brand: red; }`);
+    writeFileSync(
+      join(dir, "tailwind.config.cjs"),
+      `module.exports = { theme: { extend: { spacing: { gutter: "1rem" } } } };`,
+    );
+
+    try {
+      const cache = createTailwindContextCache();
+      const red = await createTailwindContext(css, { base: dir, cache });
+      expect(getTailwindContextDependencies(red.context)).toEqual(
+        expect.arrayContaining([join(dir, "theme.css"), join(dir, "tailwind.config.cjs")]),
+      );
+      expect((await createTailwindContext(css, { base: dir, cache })).context).toBe(red.context);
+
+      // same entry CSS, but the imported stylesheet changed
+      writeFileSync(join(dir, "theme.css"), `@theme { --color-brand: blue; }`);
+      expect(cache.has(css, dir)).toBe(false);
+      const blue = await createTailwindContext(css, { base: dir, cache });
+      expect(blue.context.resolveThemeValue("--color-brand")).toBe("blue");
+
+      // the `@config` module changed
+      writeFileSync(
+        join(dir, "tailwind.config.cjs"),
+        `module.exports = { theme: { extend: { spacing: { gutter: "2rem" } } } };`,
+      );
+      const { context } = await createTailwindContext(css, { base: dir, cache });
+      expect(context).not.toBe(blue.context);
+      expect(context.candidatesToCss(["p-gutter"])[0]).toContain("2rem");
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
 });
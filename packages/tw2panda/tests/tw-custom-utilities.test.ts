@@ -0,0 +1,109 @@
+import { describe, expect, test } from "vitest";
+import { join } from "pathe";
+import { loadTailwindContext } from "../src/config/load-context";
+import { createPandaContext } from "../src/panda-context";
+import { twClassListToPandaStyles } from "../src/tw-class-list-to-panda-styles";
+import { extractTwCustomUtilities, generateUtilitiesConfig, getTwCustomUtilities } from "../src/tw-custom-utilities";
+
+const samplesDir = join(__dirname, "../samples");
+
+describe("tw-custom-utilities", () => {
+  test("extractTwCustomUtilities", () => {
+    expect(
+      extractTwCustomUtilities("@utility tab-* { tab-size: --value(--tab-size-*, integer); }"),
+    ).toMatchInlineSnapshot(`
+      [
+        {
+          "kind": "functional",
+          "name": "tab",
+          "propName": "tab",
+          "styles": {
+            "tabSize": "__VALUE__",
+          },
+          "themeNamespaces": [
+            "--tab-size",
+          ],
+        },
+      ]
+    `);
+  });
+
+  test("generateUtilitiesConfig from the @import chain", async () => {
+    const { context } = await loadTailwindContext({ cwd: samplesDir, configPath: "utilities/app.css" });
+    const utilities = getTwCustomUtilities(context);
+
+    expect(utilities.map((utility) => utility.name)).toEqual(["scrollbar-hidden", "tab", "intrinsic"]);
+    expect(generateUtilitiesConfig(utilities, context)).toMatchInlineSnapshot(`
+      "/**
+       * Panda utilities converted from Tailwind \`@utility\` definitions
+       * Generated by tw2panda, add them to the \`utilities\` key of your panda.config
+       */
+      export const utilities = {
+        scrollbarHidden: {
+          className: "scrollbar-hidden",
+          values: { type: "boolean" },
+          transform(value) {
+            if (!value) return {};
+            return {
+              scrollbarWidth: "none",
+              "&::-webkit-scrollbar": { display: "none" },
+            };
+          },
+        },
+        tab: {
+          className: "tab",
+          values: { github: "8" },
+          transform(value) {
+            return { tabSize: value };
+          },
+        },
+        intrinsic: {
+          className: "intrinsic",
+          transform(value) {
+            return {
+              contentVisibility: "auto",
+              containIntrinsicSize: \`auto calc(\${value} * 1px)\`,
+            };
+          },
+        },
+      };
+      "
+    `);
+  });
+
+  test("rewrites call sites to the custom utilities", async () => {
+    const { context } = await loadTailwindContext({ cwd: samplesDir, configPath: "utilities/app.css" });
+
+    const styles = twClassListToPandaStyles(
+      new Set(["md:scrollbar-hidden", "!scrollbar-hidden", "tab-github", "tab-4", "intrinsic-[500]"]),
+      context,
+      createPandaContext(),
+    );
+    expect(styles.map((s) => s.styles)).toMatchInlineSnapshot(`
+      [
+        {
+          "md": {
+            "scrollbarHidden": true,
+          },
+        },
+        {
+          "scrollbarWidth": "none !important",
+        },
+        {
+          "_scrollbar": {
+            "display": "none !important",
+          },
+        },
+        {
+          "tab": "github",
+        },
+        {
+          "tab": "4",
+        },
+        {
+          "intrinsic": "500",
+        },
+      ]
+    `);
+  });
+});
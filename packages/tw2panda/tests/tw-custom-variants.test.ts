@@ -0,0 +1,91 @@
+import { describe, expect, test } from "vitest";
+import { join } from "pathe";
+import { loadTailwindContext } from "../src/config/load-context";
+import { createPandaContext } from "../src/panda-context";
+import { twClassListToPandaStyles } from "../src/tw-class-list-to-panda-styles";
+import { extractTwCustomVariants, generateConditionsConfig, getTwCustomVariants } from "../src/tw-custom-variants";
+
+const samplesDir = join(__dirname, "../samples");
+
+describe("tw-custom-variants", () => {
+  test("extractTwCustomVariants", () => {
+    expect(
+      extractTwCustomVariants(`
+        @variant hocus (&:hover, &:focus);
+        @custom-variant theme-midnight {
+          &:where([data-theme="midnight"] *) {
+            @slot;
+          }
+        }
+        @custom-variant any-hover {
+          @media (any-hover: hover) {
+            &:hover {
+              @slot;
+            }
+          }
+        }
+        .card {
+          @variant dark {
+            color: white;
+          }
+        }
+      `),
+    ).toMatchInlineSnapshot(`
+      [
+        {
+          "condition": "&:hover, &:focus",
+          "conditionName": "hocus",
+          "name": "hocus",
+        },
+        {
+          "condition": "&:where([data-theme="midnight"] *)",
+          "conditionName": "themeMidnight",
+          "name": "theme-midnight",
+        },
+      ]
+    `);
+  });
+
+  test("generateConditionsConfig & call sites", async () => {
+    const { context } = await loadTailwindContext({ cwd: samplesDir, configPath: "variants/app.css" });
+    const variants = getTwCustomVariants(context);
+
+    expect(generateConditionsConfig(variants)).toMatchInlineSnapshot(`
+      "/**
+       * Panda conditions converted from Tailwind \`@custom-variant\` definitions and group/peer variants
+       * Generated by tw2panda, add them to the \`conditions\` key of your panda.config
+       */
+      export const conditions = {
+        dark: "&:where(.dark, .dark *)",
+        hocus: "&:hover, &:focus",
+        pointerCoarse: "@media (pointer: coarse)",
+      };
+      "
+    `);
+
+    const styles = twClassListToPandaStyles(
+      new Set(["dark:bg-black", "hocus:underline", "pointer-coarse:p-4"]),
+      context,
+      createPandaContext(),
+    );
+    expect(styles.map((s) => s.styles)).toMatchInlineSnapshot(`
+      [
+        {
+          "_dark": {
+            "backgroundColor": "token(colors.black, #000)",
+          },
+        },
+        {
+          "_hocus": {
+            "textDecorationLine": "underline",
+          },
+        },
+        {
+          "_pointerCoarse": {
+            "padding": "token(spacing.4, 1rem)",
+          },
+        },
+      ]
+    `);
+  });
+});
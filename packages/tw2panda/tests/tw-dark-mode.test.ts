@@ -0,0 +1,130 @@
+import { createMergeCss } from "@pandacss/shared";
+import { describe, expect, test } from "vitest";
+import { createPandaContext } from "../src/panda-context";
+import { twClassListToPandaStyles } from "../src/tw-class-list-to-panda-styles";
+import { createTailwindContext } from "../src/tw-context";
+import { getTwDarkMode, getTwDarkSelectorMode } from "../src/tw-dark-mode";
+
+describe("tw-dark-mode", () => {
+  const convert = async (css: string) => {
+    const tw = await createTailwindContext(css);
+    const panda = createPandaContext();
+    const { mergeCss } = createMergeCss(Object.assign(panda, { hash: false }));
+    const styles = twClassListToPandaStyles(new Set(["bg-white", "dark:bg-black"]), tw.context, panda);
+
+    return { darkMode: getTwDarkMode(tw.context, panda), styles: mergeCss(...styles.map((s) => s.styles)) };
+  };
+
+  test("media-based dark mode (Tailwind's default)", async () => {
+    expect(await convert(`@import "tailwindcss";`)).toMatchInlineSnapshot(`
+      {
+        "darkMode": {
+          "conditions": [
+            "_osDark",
+          ],
+        },
+        "styles": {
+          "_osDark": {
+            "backgroundColor": "token(colors.black, #000)",
+          },
+          "backgroundColor": "token(colors.white, #fff)",
+        },
+      }
+    `);
+  });
+
+  test("class-based dark mode", async () => {
+    expect(await convert(`@import "tailwindcss"; @custom-variant dark (&:where(.dark, .dark *));`))
+      .toMatchInlineSnapshot(`
+      {
+        "darkMode": {
+          "conditions": [
+            "_dark",
+          ],
+        },
+        "styles": {
+          "_dark": {
+            "backgroundColor": "token(colors.black, #000)",
+          },
+          "backgroundColor": "token(colors.white, #fff)",
+        },
+      }
+    `);
+  });
+
+  test("attribute-based dark mode", async () => {
+    expect(
+      await convert(`@import "tailwindcss"; @custom-variant dark (&:where([data-theme=dark], [data-theme=dark] *));`),
+    ).toMatchInlineSnapshot(`
+      {
+        "darkMode": {
+          "conditions": [
+            "_twDark",
+          ],
+          "variant": {
+            "condition": "&:where([data-theme=dark], [data-theme=dark] *)",
+            "conditionName": "twDark",
+            "name": "dark",
+          },
+        },
+        "styles": {
+          "_twDark": {
+            "backgroundColor": "token(colors.black, #000)",
+          },
+          "backgroundColor": "token(colors.white, #fff)",
+        },
+      }
+    `);
+  });
+
+  test("media-based dark mode with a light class opt-out", async () => {
+    expect(
+      await convert(`
+        @import "tailwindcss";
+        @custom-variant dark {
+          @media (prefers-color-scheme: dark) {
+            &:not(.light *) {
+              @slot;
+            }
+          }
+        }
+      `),
+    ).toMatchInlineSnapshot(`
+      {
+        "darkMode": {
+          "conditions": [
+            "_osDark",
+            "&:not(.light *)",
+          ],
+        },
+        "styles": {
+          "_osDark": {
+            "&:not(.light *)": {
+              "backgroundColor": "token(colors.black, #000)",
+            },
+          },
+          "backgroundColor": "token(colors.white, #fff)",
+        },
+      }
+    `);
+  });
+
+  test("getTwDarkSelectorMode - the condition of the selector dark CSS variables are defined under", () => {
+    const panda = createPandaContext();
+
+    // Regardless of the `dark:` variant (media-based by default), `.dark { --primary: ... }` is class-based
+    expect(getTwDarkSelectorMode(".dark", panda)).toEqual({ conditions: ["_dark"] });
+    expect(getTwDarkSelectorMode('[data-theme="dark"]', panda)).toMatchInlineSnapshot(`
+      {
+        "conditions": [
+          "_twDark",
+        ],
+        "variant": {
+          "condition": "&:where([data-theme="dark"], [data-theme="dark"] *)",
+          "conditionName": "twDark",
+          "name": "dark",
+        },
+      }
+    `);
+  });
+});
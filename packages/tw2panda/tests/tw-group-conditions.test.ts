@@ -0,0 +1,152 @@
+import { createMergeCss } from "@pandacss/shared";
+import { beforeAll, describe, expect, test } from "vitest";
+import { createPandaContext } from "../src/panda-context";
+import { rewriteTwFileContentToPanda } from "../src/rewrite-tw-file-content-to-panda";
+import { twClassListToPandaStyles } from "../src/tw-class-list-to-panda-styles";
+import { createTailwindContext } from "../src/tw-context";
+import { generateConditionsConfig } from "../src/tw-custom-variants";
+import { collectTwGroupConditions, getMarkerClassHook, getTwGroupCondition } from "../src/tw-group-conditions";
+import { TailwindContext } from "../src/tw-types";
+
+describe("tw-group-conditions", () => {
+  let tailwindContext: TailwindContext;
+
+  beforeAll(async () => {
+    const tw = await createTailwindContext();
+    tailwindContext = tw.context;
+  });
+
+  test("getMarkerClassHook", () => {
+    expect(getMarkerClassHook("group", null)).toBe("group");
+    expect(getMarkerClassHook("group/item", null)).toBe("group-item");
+    expect(getMarkerClassHook("peer/email", null)).toBe("peer-email");
+    expect(getMarkerClassHook("tw:group/item", "tw")).toBe("group-item");
+    expect(getMarkerClassHook("card", null)).toBe("card");
+  });
+
+  test("getTwGroupCondition", () => {
+    const panda = createPandaContext();
+
+    // Panda already has `_groupHover`
+    expect(getTwGroupCondition("group-hover", tailwindContext, panda)).toBeUndefined();
+    // Not a group/peer variant
+    expect(getTwGroupCondition("hover", tailwindContext, panda)).toBeUndefined();
+
+    expect(
+      ["group-hover/item", "peer-invalid/email", "group-data-[state=open]", "group-aria-expanded/nav"].map((modifier) =>
+        getTwGroupCondition(modifier, tailwindContext, panda),
+      ),
+    ).toMatchInlineSnapshot(`
+      [
+        {
+          "condition": ".group-item:is(:hover, [data-hover]) &",
+          "conditionName": "groupItemHover",
+          "name": "group-hover/item",
+        },
+        {
+          "condition": ".peer-email:is(:invalid, [data-invalid], [aria-invalid=true]) ~ &",
+          "conditionName": "peerEmailInvalid",
+          "name": "peer-invalid/email",
+        },
+        {
+          "condition": "&:is(:where(.group)[data-state="open"] *)",
+          "conditionName": "groupDataStateOpen",
+          "name": "group-data-[state=open]",
+        },
+        {
+          "condition": "&:is(:where(.group-nav)[aria-expanded="true"] *)",
+          "conditionName": "groupNavAriaExpanded",
+          "name": "group-aria-expanded/nav",
+        },
+      ]
+    `);
+  });
+
+  test("call sites & generateConditionsConfig", () => {
+    const panda = createPandaContext();
+    const classList = new Set([
+      "group-hover:underline",
+      "group-hover/item:underline",
+      "peer-invalid/email:text-red-500",
+      "group-data-[state=open]:flex",
+    ]);
+
+    const stylesList = twClassListToPandaStyles(classList, tailwindContext, panda);
+    expect(stylesList.map((s) => s.styles)).toMatchInlineSnapshot(`
+      [
+        {
+          "_groupHover": {
+            "textDecorationLine": "underline",
+          },
+        },
+        {
+          "_groupItemHover": {
+            "textDecorationLine": "underline",
+          },
+        },
+        {
+          "_peerEmailInvalid": {
+            "color": "token(colors.red.500, oklch(63.7% 0.237 25.331))",
+          },
+        },
+        {
+          "_groupDataStateOpen": {
+            "display": "flex",
+          },
+        },
+      ]
+    `);
+
+    const conditions = collectTwGroupConditions(classList, tailwindContext, panda);
+    expect(generateConditionsConfig(conditions)).toMatchInlineSnapshot(`
+      "/**
+       * Panda conditions converted from Tailwind \`@custom-variant\` definitions and group/peer variants
+       * Generated by tw2panda, add them to the \`conditions\` key of your panda.config
+       */
+      export const conditions = {
+        groupItemHover: ".group-item:is(:hover, [data-hover]) &",
+        peerEmailInvalid:
+          ".peer-email:is(:invalid, [data-invalid], [aria-invalid=true]) ~ &",
+        groupDataStateOpen: '&:is(:where(.group)[data-state="open"] *)',
+      };
+      "
+    `);
+  });
+
+  test("marker classes are replaced with their class hook", () => {
+    const panda = createPandaContext();
+    const { mergeCss } = createMergeCss({
+      utility: panda.utility,
+      conditions: panda.conditions,
+      hash: false,
+    });
+
+    const input = `
+      const Component = () => {
+        return (
+          <li className="group/item flex">
+            <a className="group-hover/item:underline">Link</a>
+            <input className="peer/email" />
+            <p className="peer-invalid/email:block card">Invalid</p>
+          </li>
+        )
+      }
+    `;
+
+    const { output } = rewriteTwFileContentToPanda(input, "Component.tsx", tailwindContext, panda, mergeCss);
+    expect(output).toMatchInlineSnapshot(`
+      "import { css, cx } from '../styled-system/css'
+
+      const Component = () => {
+        return (
+          <li className={cx(css({ display: 'flex' }), 'group-item')}>
+            <a className={css({ _groupItemHover: { textDecorationLine: 'underline' } })}>Link</a>
+            <input className="peer-email" />
+            <p className={cx(css({ _peerEmailInvalid: { display: 'block' } }), 'card')}>Invalid</p>
+          </li>
+        )
+      }
+      "
+    `);
+  });
+});
@@ -0,0 +1,102 @@
+import { createMergeCss } from "@pandacss/shared";
+import { beforeAll, describe, expect, test } from "vitest";
+import { createPandaContext } from "../src/panda-context";
+import { twClassListToPandaStyles } from "../src/tw-class-list-to-panda-styles";
+import { createTailwindContext } from "../src/tw-context";
+import { collectTwKeyframes, generateKeyframesConfig, getTwKeyframes } from "../src/tw-keyframes";
+import { TailwindContext } from "../src/tw-types";
+
+describe("tw-keyframes", () => {
+  let tailwindContext: TailwindContext;
+
+  beforeAll(async () => {
+    const tw = await createTailwindContext(`
+      @import "tailwindcss";
+      @theme {
+        --animate-wiggle: wiggle 1s ease-in-out infinite;
+        @keyframes wiggle {
+          0%, 100% { transform: rotate(-3deg); }
+          50% { transform: rotate(3deg); }
+        }
+      }
+    `);
+    tailwindContext = tw.context;
+  });
+
+  test("getTwKeyframes", () => {
+    const keyframes = getTwKeyframes(tailwindContext);
+
+    expect(Array.from(keyframes.keys())).toMatchInlineSnapshot(`
+      [
+        "spin",
+        "ping",
+        "pulse",
+        "bounce",
+        "wiggle",
+      ]
+    `);
+    expect(keyframes.get("wiggle")).toMatchInlineSnapshot(`
+      {
+        "0%, 100%": {
+          "transform": "rotate(-3deg)",
+        },
+        "50%": {
+          "transform": "rotate(3deg)",
+        },
+      }
+    `);
+  });
+
+  test("collectTwKeyframes & generateKeyframesConfig", () => {
+    const panda = createPandaContext();
+    const keyframes = collectTwKeyframes(
+      ["animate-spin", "animate-pulse", "animate-bounce", "hover:animate-wiggle", "animate-[wiggle_2s_linear]"],
+      tailwindContext,
+      panda,
+    );
+
+    expect(Object.keys(keyframes)).toMatchInlineSnapshot(`
+      [
+        "wiggle",
+      ]
+    `);
+    expect(generateKeyframesConfig({ wiggle: keyframes["wiggle"]! })).toMatchInlineSnapshot(`
+      "/**
+       * Panda keyframes converted from the Tailwind \`@keyframes\` used by \`animate-*\` classes
+       * Generated by tw2panda, add them to the \`theme.extend.keyframes\` key of your panda.config
+       */
+      export const keyframes = {
+        wiggle: {
+          "0%, 100%": {
+            transform: "rotate(-3deg)",
+          },
+          "50%": {
+            transform: "rotate(3deg)",
+          },
+        },
+      };
+      "
+    `);
+  });
+
+  test("animate-* classes", () => {
+    const panda = createPandaContext();
+    const { mergeCss } = createMergeCss(Object.assign(panda, { hash: false }));
+    const convert = (classList: string[]) =>
+      mergeCss(...twClassListToPandaStyles(new Set(classList), tailwindContext, panda).map((s) => s.styles));
+
+    expect(convert(["animate-spin", "hover:animate-wiggle"])).toMatchInlineSnapshot(`
+      {
+        "_hover": {
+          "animation": "wiggle 1s ease-in-out infinite",
+        },
+        "animation": "spin 1s linear infinite",
+      }
+    `);
+    expect(convert(["animate-bounce"])).toMatchInlineSnapshot(`
+      {
+        "animation": "bounce 1s infinite",
+      }
+    `);
+  });
+});
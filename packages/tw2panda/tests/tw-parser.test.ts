@@ -587,6 +587,119 @@ test("variant with rgba alpha transparent", () => {
   `);
 });
 
+test("arbitrary value with opacity modifier", () => {
+  expect(parseTailwindClasses("hover:bg-[#ff0000]/50 border-white/[0.1]")).toMatchInlineSnapshot(`
+    [
+      {
+        "className": "hover:bg-[#ff0000]/50",
+        "kind": "arbitrary-value",
+        "modifiers": [
+          "hover",
+        ],
+        "utility": "bg",
+        "value": "[#ff0000]/50",
+        "variant": "bg-[#ff0000]/50",
+      },
+      {
+        "className": "border-white/[0.1]",
+        "kind": "arbitrary-value",
+        "modifiers": [],
+        "utility": "border",
+        "value": "white/[0.1]",
+        "variant": "border-white/[0.1]",
+      },
+    ]
+  `);
+});
+
+test("negative & fractional values", () => {
+  expect(parseTailwindClasses("-mt-4 w-1/2 -z-10 hover:-top-px")).toMatchInlineSnapshot(`
+    [
+      {
+        "className": "-mt-4",
+        "modifiers": [],
+        "utility": "mt",
+        "value": "-4",
+        "variant": "-mt-4",
+      },
+      {
+        "className": "w-1/2",
+        "modifiers": [],
+        "utility": "w",
+        "value": "1/2",
+        "variant": "w-1/2",
+      },
+      {
+        "className": "-z-10",
+        "modifiers": [],
+        "utility": "z",
+        "value": "-10",
+        "variant": "-z-10",
+      },
+      {
+        "className": "hover:-top-px",
+        "modifiers": [
+          "hover",
+        ],
+        "utility": "top",
+        "value": "-px",
+        "variant": "-top-px",
+      },
+    ]
+  `);
+});
+
+test("container queries", () => {
+  expect(parseTailwindClasses("@container/sidebar @md:flex @max-lg:hidden @[400px]:grid @lg/sidebar:block"))
+    .toMatchInlineSnapshot(`
+      [
+        {
+          "className": "@container/sidebar",
+          "modifiers": [],
+          "utility": "@container/sidebar",
+          "value": "@container/sidebar",
+          "variant": "@container/sidebar",
+        },
+        {
+          "className": "@md:flex",
+          "modifiers": [
+            "@md",
+          ],
+          "utility": "flex",
+          "value": "flex",
+          "variant": "flex",
+        },
+        {
+          "className": "@max-lg:hidden",
+          "modifiers": [
+            "@max-lg",
+          ],
+          "utility": "hidden",
+          "value": "hidden",
+          "variant": "hidden",
+        },
+        {
+          "className": "@[400px]:grid",
+          "modifiers": [
+            "@[400px]",
+          ],
+          "utility": "grid",
+          "value": "grid",
+          "variant": "grid",
+        },
+        {
+          "className": "@lg/sidebar:block",
+          "modifiers": [
+            "@lg/sidebar",
+          ],
+          "utility": "block",
+          "value": "block",
+          "variant": "block",
+        },
+      ]
+    `);
+});
+
 test("variant with forward slash", () => {
   expect(parseTailwindClasses("w-3/4")).toMatchInlineSnapshot(`
     [
@@ -668,3 +781,67 @@ test("variant with important", () => {
     ]
   `);
 });
+
+test("important after variants", () => {
+  expect(parseTailwindClasses("hover:!flex md:bg-red-500/50!")).toMatchInlineSnapshot(`
+    [
+      {
+        "className": "hover:!flex",
+        "isImportant": true,
+        "modifiers": [
+          "hover",
+        ],
+        "utility": "flex",
+        "value": "flex",
+        "variant": "!flex",
+      },
+      {
+        "className": "md:bg-red-500/50!",
+        "isImportant": true,
+        "modifiers": [
+          "md",
+        ],
+        "utility": "bg",
+        "value": "red-500/50",
+        "variant": "bg-red-500/50",
+      },
+    ]
+  `);
+});
+
+test("prefixed classes", () => {
+  const parse = (classList: string) =>
+    classList.split(" ").map((className) => parseTwClassName(className, { prefix: "tw" }));
+
+  expect(parse("tw:flex tw:hover:bg-red-500 tw:md:p-4! flex")).toMatchInlineSnapshot(`
+    [
+      {
+        "className": "tw:flex",
+        "modifiers": [],
+        "utility": "flex",
+        "value": "flex",
+        "variant": "flex",
+      },
+      {
+        "className": "tw:hover:bg-red-500",
+        "modifiers": [
+          "hover",
+        ],
+        "utility": "bg",
+        "value": "red-500",
+        "variant": "bg-red-500",
+      },
+      {
+        "className": "tw:md:p-4!",
+        "isImportant": true,
+        "modifiers": [
+          "md",
+        ],
+        "utility": "p",
+        "value": "4",
+        "variant": "p-4",
+      },
+      undefined,
+    ]
+  `);
+});
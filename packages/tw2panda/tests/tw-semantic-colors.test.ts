@@ -0,0 +1,258 @@
+import { createMergeCss } from "@pandacss/shared";
+import { beforeAll, describe, expect, test } from "vitest";
+import { createPandaContext } from "../src/panda-context";
+import { twClassListToPandaStyles } from "../src/tw-class-list-to-panda-styles";
+import { createTailwindContext } from "../src/tw-context";
+import {
+  extractTwColorVariables,
+  generateSemanticTokensConfig,
+  getTwColorVariablesDarkSelector,
+  getTwSemanticColors,
+} from "../src/tw-semantic-colors";
+import { TailwindContext } from "../src/tw-types";
+
+const shadcnCss = `
+  @import "tailwindcss";
+  @custom-variant dark (&:is(.dark *));
+
+  :root {
+    --background: oklch(1 0 0);
+    --primary: oklch(0.205 0 0);
+    --primary-foreground: oklch(0.985 0 0);
+    --muted-foreground: oklch(0.556 0 0);
+    --ring: oklch(0.708 0 0);
+    --sidebar-ring: var(--ring);
+  }
+
+  .dark {
+    --background: oklch(0.145 0 0);
+    --primary: oklch(0.922 0 0);
+    --primary-foreground: oklch(0.205 0 0);
+    --muted-foreground: oklch(0.708 0 0);
+    --ring: oklch(0.556 0 0);
+  }
+
+  @theme inline {
+    --color-background: var(--background);
+    --color-primary: var(--primary);
+    --color-primary-foreground: var(--primary-foreground);
+    --color-muted-foreground: var(--muted-foreground);
+    --color-ring: var(--ring);
+    --color-sidebar-ring: var(--sidebar-ring);
+  }
+`;
+
+describe("tw-semantic-colors", () => {
+  let tailwindContext: TailwindContext;
+
+  beforeAll(async () => {
+    const tw = await createTailwindContext(shadcnCss);
+    tailwindContext = tw.context;
+  });
+
+  test("extractTwColorVariables", () => {
+    expect(
+      extractTwColorVariables(`
+        @layer base {
+          :root { --primary: 222.2 47.4% 11.2%; --radius: 0.5rem; }
+          .dark { --primary: 210 40% 98%; }
+        }
+        .card { --primary: red; }
+      `),
+    ).toMatchInlineSnapshot(`
+      [
+        {
+          "base": "222.2 47.4% 11.2%",
+          "dark": "210 40% 98%",
+          "darkSelector": ".dark",
+          "name": "--primary",
+        },
+        {
+          "base": "0.5rem",
+          "name": "--radius",
+        },
+      ]
+    `);
+  });
+
+  test("getTwSemanticColors & generateSemanticTokensConfig", () => {
+    const colors = getTwSemanticColors(tailwindContext);
+    expect(getTwColorVariablesDarkSelector(tailwindContext)).toBe(".dark");
+
+    expect(colors.find((color) => color.name === "sidebar-ring")).toMatchInlineSnapshot(`
+      {
+        "name": "sidebar-ring",
+        "path": "sidebar.ring",
+        "value": {
+          "base": "oklch(0.708 0 0)",
+          "dark": "oklch(0.556 0 0)",
+        },
+      }
+    `);
+    expect(generateSemanticTokensConfig(colors)).toMatchInlineSnapshot(`
+      "/**
+       * Panda semantic tokens converted from the Tailwind colors defined with \`:root\` & \`.dark\` CSS variables
+       * Generated by tw2panda, add them to the \`theme.extend.semanticTokens\` key of your panda.config
+       */
+      export const semanticTokens = {
+        colors: {
+          background: {
+            value: {
+              base: "oklch(1 0 0)",
+              _dark: "oklch(0.145 0 0)",
+            },
+          },
+          primary: {
+            DEFAULT: {
+              value: {
+                base: "oklch(0.205 0 0)",
+                _dark: "oklch(0.922 0 0)",
+              },
+            },
+            foreground: {
+              value: {
+                base: "oklch(0.985 0 0)",
+                _dark: "oklch(0.205 0 0)",
+              },
+            },
+          },
+          muted: {
+            foreground: {
+              value: {
+                base: "oklch(0.556 0 0)",
+                _dark: "oklch(0.708 0 0)",
+              },
+            },
+          },
+          ring: {
+            value: {
+              base: "oklch(0.708 0 0)",
+              _dark: "oklch(0.556 0 0)",
+            },
+          },
+          sidebar: {
+            ring: {
+              value: {
+                base: "oklch(0.708 0 0)",
+                _dark: "oklch(0.556 0 0)",
+              },
+            },
+          },
+        },
+      };
+      "
+    `);
+  });
+
+  test("dark values of the prefers-color-scheme media query", async () => {
+    const tw = await createTailwindContext(`
+      @import "tailwindcss";
+      :root { --primary: oklch(0.205 0 0); --muted: oklch(0.97 0 0); }
+      @media (prefers-color-scheme: dark) {
+        :root { --primary: oklch(0.922 0 0); }
+        .card { --muted: red; }
+      }
+      .dark { --muted: oklch(0.269 0 0); }
+      @theme inline { --color-primary: var(--primary); --color-muted: var(--muted); }
+    `);
+
+    const colors = getTwSemanticColors(tw.context);
+    expect(colors).toMatchInlineSnapshot(`
+      [
+        {
+          "name": "primary",
+          "path": "primary",
+          "value": {
+            "base": "oklch(0.205 0 0)",
+            "osDark": "oklch(0.922 0 0)",
+          },
+        },
+        {
+          "name": "muted",
+          "path": "muted",
+          "value": {
+            "base": "oklch(0.97 0 0)",
+            "dark": "oklch(0.269 0 0)",
+          },
+        },
+      ]
+    `);
+    expect(generateSemanticTokensConfig(colors)).toMatchInlineSnapshot(`
+      "/**
+       * Panda semantic tokens converted from the Tailwind colors defined with \`:root\` & \`.dark\` CSS variables
+       * Generated by tw2panda, add them to the \`theme.extend.semanticTokens\` key of your panda.config
+       */
+      export const semanticTokens = {
+        colors: {
+          primary: {
+            value: {
+              base: "oklch(0.205 0 0)",
+              _osDark: "oklch(0.922 0 0)",
+            },
+          },
+          muted: {
+            value: {
+              base: "oklch(0.97 0 0)",
+              _dark: "oklch(0.269 0 0)",
+            },
+          },
+        },
+      };
+      "
+    `);
+  });
+
+  test("hsl channels with a v3-style theme", async () => {
+    const tw = await createTailwindContext(`
+      @import "tailwindcss";
+      @layer base {
+        :root { --primary: 222.2 47.4% 11.2%; }
+        .dark { --primary: 210 40% 98%; }
+      }
+      @theme { --color-primary: hsl(var(--primary)); }
+    `);
+
+    expect(getTwSemanticColors(tw.context)).toMatchInlineSnapshot(`
+      [
+        {
+          "name": "primary",
+          "path": "primary",
+          "value": {
+            "base": "hsl(222.2 47.4% 11.2%)",
+            "dark": "hsl(210 40% 98%)",
+          },
+        },
+      ]
+    `);
+  });
+
+  test("classes using semantic colors", () => {
+    const panda = createPandaContext();
+    const { mergeCss } = createMergeCss(Object.assign(panda, { hash: false }));
+    const classList = [
+      "bg-primary",
+      "text-primary-foreground",
+      "hover:bg-primary/90",
+      "focus-visible:ring-2",
+      "focus-visible:ring-ring",
+      "dark:text-muted-foreground",
+    ];
+
+    expect(mergeCss(...twClassListToPandaStyles(new Set(classList), tailwindContext, panda).map((s) => s.styles)))
+      .toMatchInlineSnapshot(`
+        {
+          "_focusVisible": {
+            "boxShadow": "0 0 0 2px token(colors.ring)",
+          },
+          "_hover": {
+            "backgroundColor": "color-mix(in oklab, token(colors.primary) 90%, transparent)",
+          },
+          "_twDark": {
+            "color": "muted.foreground",
+          },
+          "backgroundColor": "primary",
+          "color": "primary.foreground",
+        }
+      `);
+  });
+});
@@ -0,0 +1,180 @@
+import { createMergeCss } from "@pandacss/shared";
+import { beforeAll, describe, expect, test } from "vitest";
+import { createPandaContext } from "../src/panda-context";
+import { twClassListToPandaStyles } from "../src/tw-class-list-to-panda-styles";
+import { createTailwindContext } from "../src/tw-context";
+import { generateTextStylesConfig, getMissingTextStyles, getTwTextStyles } from "../src/tw-text-styles";
+import { TailwindContext } from "../src/tw-types";
+
+describe("tw-text-styles", () => {
+  let tailwindContext: TailwindContext;
+
+  beforeAll(async () => {
+    const tw = await createTailwindContext();
+    tailwindContext = tw.context;
+  });
+
+  test("getTwTextStyles", () => {
+    const textStyles = getTwTextStyles(tailwindContext);
+
+    expect(textStyles.map((textStyle) => textStyle.name)).toMatchInlineSnapshot(`
+      [
+        "xs",
+        "sm",
+        "base",
+        "lg",
+        "xl",
+        "2xl",
+        "3xl",
+        "4xl",
+        "5xl",
+        "6xl",
+        "7xl",
+        "8xl",
+        "9xl",
+      ]
+    `);
+    expect(textStyles.find((textStyle) => textStyle.name === "sm")).toMatchInlineSnapshot(`
+      {
+        "name": "sm",
+        "value": {
+          "fontSize": "0.875rem",
+          "lineHeight": "calc(1.25 / 0.875)",
+        },
+      }
+    `);
+  });
+
+  test("getTwTextStyles with letter-spacing & font-weight", async () => {
+    const tw = await createTailwindContext(`
+      @import "tailwindcss";
+      @theme {
+        --text-display: 3.5rem;
+        --text-display--line-height: 1.1;
+        --text-display--letter-spacing: -0.02em;
+        --text-display--font-weight: 700;
+      }
+    `);
+
+    expect(getTwTextStyles(tw.context).find((textStyle) => textStyle.name === "display")).toMatchInlineSnapshot(`
+      {
+        "name": "display",
+        "value": {
+          "fontSize": "3.5rem",
+          "fontWeight": "700",
+          "letterSpacing": "-0.02em",
+          "lineHeight": "1.1",
+        },
+      }
+    `);
+  });
+
+  test("getMissingTextStyles & generateTextStylesConfig", () => {
+    const panda = createPandaContext();
+    const textStyles = getMissingTextStyles(tailwindContext, panda);
+
+    // Panda's preset has `md` instead of `base`
+    expect(textStyles.map((textStyle) => textStyle.name)).toMatchInlineSnapshot(`
+      [
+        "base",
+      ]
+    `);
+    expect(generateTextStylesConfig(textStyles)).toMatchInlineSnapshot(`
+      "/**
+       * Panda text styles converted from the Tailwind \`--text-*\` font sizes
+       * Generated by tw2panda, add them to the \`theme.extend.textStyles\` key of your panda.config
+       */
+      export const textStyles = {
+        base: {
+          value: {
+            fontSize: "1rem",
+            lineHeight: "calc(1.5 / 1)",
+          },
+        },
+      };
+      "
+    `);
+  });
+
+  test("font sizes Panda defines differently get a tw- prefixed text style", async () => {
+    const tw = await createTailwindContext(`
+      @import "tailwindcss";
+      @theme {
+        --text-sm: 0.875rem;
+        --text-sm--line-height: 1.5;
+      }
+    `);
+    const panda = createPandaContext();
+
+    expect(getTwTextStyles(tw.context)).toBe(getTwTextStyles(tw.context));
+    // Panda's `sm` has a 1.25rem line-height, `xs` is the same as Tailwind's `calc(1 / 0.75)`
+    expect(getMissingTextStyles(tw.context, panda)).toMatchInlineSnapshot(`
+      [
+        {
+          "name": "tw-sm",
+          "value": {
+            "fontSize": "0.875rem",
+            "lineHeight": "1.5",
+          },
+        },
+        {
+          "name": "base",
+          "value": {
+            "fontSize": "1rem",
+            "lineHeight": "calc(1.5 / 1)",
+          },
+        },
+      ]
+    `);
+    expect(
+      twClassListToPandaStyles(new Set(["text-sm", "text-xs"]), tw.context, panda, { textStyles: true }).map(
+        (s) => s.styles,
+      ),
+    ).toMatchInlineSnapshot(`
+      [
+        {
+          "textStyle": "tw-sm",
+        },
+        {
+          "textStyle": "xs",
+        },
+      ]
+    `);
+  });
+
+  test("text-* classes with the textStyles option", () => {
+    const panda = createPandaContext();
+    const { mergeCss } = createMergeCss(Object.assign(panda, { hash: false }));
+    const convert = (classList: string[], textStyles: boolean) =>
+      mergeCss(
+        ...twClassListToPandaStyles(new Set(classList), tailwindContext, panda, { textStyles }).map((s) => s.styles),
+      );
+
+    expect(convert(["text-sm", "md:text-lg", "text-red-500"], true)).toMatchInlineSnapshot(`
+      {
+        "color": "token(colors.red.500, oklch(63.7% 0.237 25.331))",
+        "md": {
+          "textStyle": "lg",
+        },
+        "textStyle": "sm",
+      }
+    `);
+    // line-height overrides keep the font-size & line-height
+    expect(convert(["text-sm/6", "text-lg/[1.5]", "md:text-base/tight"], true)).toMatchInlineSnapshot(`
+      {
+        "fontSize": "token(fontSizes.lg, 1.125rem)",
+        "lineHeight": "1.5",
+        "md": {
+          "fontSize": "1rem",
+          "lineHeight": "token(lineHeights.tight, 1.25)",
+        },
+      }
+    `);
+    expect(convert(["text-sm/6"], false)).toMatchInlineSnapshot(`
+      {
+        "fontSize": "token(fontSizes.sm, 0.875rem)",
+        "lineHeight": "1.5rem",
+      }
+    `);
+  });
+});
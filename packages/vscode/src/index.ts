@@ -1,9 +1,16 @@
 import * as vscode from "vscode";
 import { debounce } from "perfect-debounce";
-import { PandaContext, rewriteTwFileContentToPanda, prettify } from "tw2panda";
-import { loadPandaContext, loadTailwindContext } from "tw2panda/config";
+import { PandaContext, createTailwindContextCache, rewriteTwFileContentToPanda, prettify } from "tw2panda";
+import {
+  findTailwindCssEntries,
+  isLegacyTailwindCssEntry,
+  loadPandaContext,
+  loadTailwindContext,
+  pickTailwindCssEntry,
+} from "tw2panda/config";
 import { createMergeCss } from "@pandacss/shared";
 import { dirname } from "pathe";
+import { readFileSync } from "fs";
 import glob from "fast-glob";
 import { resolveConfigFile, resolveConfig, Options } from "prettier";
 
@@ -15,13 +22,19 @@ const debug = false;
  * ---
  * Does not actually cache context by file path, because it might change and we don't want to start a file watcher.
  * Instead, re-resolving context on every command request "only" cost 100ms.
+ * Tailwind design systems are cached by CSS content, so switching between apps with different themes is cheap.
  */
 class ContextResolver {
+  private twContextCache = createTailwindContextCache();
+
   private pandaConfigPathByFilepath = new Map<string, string>();
   private twConfigPathByFilepath = new Map<string, string>();
 
   private pandaConfigDirPathList = new Set<string>();
   private twConfigDirPathList = new Set<string>();
+  private twCssEntryPathList = new Set<string>();
+  /** The entry picked for each set of ambiguous Tailwind CSS entries */
+  private twCssEntryByCandidates = new Map<string, string>();
 
   async findConfigPaths(rootPath: string) {
     const configPathList = await glob(`${rootPath}/**/{panda,tailwind}.config.{ts,cts,mts,js,cjs,mjs}`, {
@@ -38,9 +51,15 @@ class ContextResolver {
         this.pandaConfigDirPathList.add(configPath);
       }
     });
+
+    // Tailwind v4 entry points: stylesheets with `@import "tailwindcss"`
+    findTailwindCssEntries({ cwd: rootPath }).forEach((entryPath) => this.twCssEntryPathList.add(entryPath));
   }
 
-  async get(filePath: string) {
+  /**
+   * @param pickEntry asked for the Tailwind CSS entry to use when several could be used for `filePath`
+   */
+  async get(filePath: string, pickEntry: (candidates: string[]) => Promise<string | undefined>) {
     let pandaConfigPath: string | undefined;
     let twConfigPath: string | undefined;
 
@@ -57,8 +76,28 @@ class ContextResolver {
       }
     });
 
+    // Prefer the closest v4 CSS entry, unless it only has v3 `@tailwind` directives and there is a legacy config
+    // Several entries at the same level are ambiguous, the one to use is picked once for each set of entries
+    const cssEntry = pickTailwindCssEntry(Array.from(this.twCssEntryPathList), filePath);
+    let cssEntryPath = cssEntry.filePath;
+    if (cssEntry.isAmbiguous) {
+      const candidatesKey = cssEntry.candidates.join("\n");
+      cssEntryPath = this.twCssEntryByCandidates.get(candidatesKey) ?? (await pickEntry(cssEntry.candidates));
+      if (!cssEntryPath) {
+        throw new Error(`Found multiple Tailwind CSS entries for ${filePath}: ${cssEntry.candidates.join(", ")}`);
+      }
+
+      this.twCssEntryByCandidates.set(candidatesKey, cssEntryPath);
+    }
+
+    if (cssEntryPath && !(twConfigPath && isLegacyTailwindCssEntry(readFileSync(cssEntryPath, "utf-8")))) {
+      twConfigPath = cssEntryPath;
+    }
+
     const [tailwind, panda] = await Promise.all([
-      (await loadTailwindContext({ cwd, file: filePath, configPath: twConfigPath! })).context,
+      (
+        await loadTailwindContext({ cwd, file: filePath, configPath: twConfigPath!, cache: this.twContextCache })
+      ).context,
       (await loadPandaContext({ cwd, file: filePath, configPath: pandaConfigPath! })).context,
     ]);
 
@@ -84,10 +123,19 @@ export async function activate(context: vscode.ExtensionContext) {
   };
   const resolver = new ContextResolver();
 
+  const pickTailwindEntry = async (candidates: string[]) => {
+    const entry = await vscode.window.showQuickPick(candidates, {
+      placeHolder: "Found multiple Tailwind CSS entries, pick the one to convert with",
+    });
+    if (entry) output.appendLine(`Using the Tailwind CSS entry ${entry}, among: ${candidates.join(", ")}`);
+
+    return entry;
+  };
+
   const reloadContext = async () => {
     if (!activeDocumentFilepath) return;
 
-    const contexts = await resolver.get(activeDocumentFilepath);
+    const contexts = await resolver.get(activeDocumentFilepath, pickTailwindEntry);
 
     current.tailwind = contexts.tailwind;
     current.panda = contexts.panda;